@@ -1,8 +1,18 @@
 -- Campaign Sync Database Schema
 -- PostgreSQL 12+
+--
+-- Reference snapshot of the full schema. The application manages its schema
+-- through the versioned migrations in src/database/migrations.ts
+-- (run `npm run migrate -- up|down|status`, i.e. `mixoads db migrate`).
 
 -- Drop existing table if exists
+DROP TABLE IF EXISTS dead_letter_campaigns CASCADE;
 DROP TABLE IF EXISTS campaigns CASCADE;
+DROP TABLE IF EXISTS sync_checkpoints CASCADE;
+DROP TABLE IF EXISTS campaign_metrics_snapshots CASCADE;
+DROP TABLE IF EXISTS sync_run_campaigns CASCADE;
+DROP TABLE IF EXISTS sync_run_results CASCADE;
+DROP TABLE IF EXISTS sync_runs CASCADE;
 
 -- Create campaigns table
 CREATE TABLE campaigns (
@@ -15,6 +25,8 @@ CREATE TABLE campaigns (
     conversions INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP NOT NULL,
     synced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    content_hash CHAR(64),
+    deleted_at TIMESTAMP,
     
     -- Constraints
     CONSTRAINT campaigns_status_check CHECK (status IN ('active', 'paused', 'completed')),
@@ -29,6 +41,7 @@ CREATE INDEX idx_campaigns_status ON campaigns(status);
 CREATE INDEX idx_campaigns_synced_at ON campaigns(synced_at DESC);
 CREATE INDEX idx_campaigns_created_at ON campaigns(created_at DESC);
 CREATE INDEX idx_campaigns_name ON campaigns(name);
+CREATE INDEX idx_campaigns_deleted_at ON campaigns(deleted_at) WHERE deleted_at IS NOT NULL;
 
 -- Add comments
 COMMENT ON TABLE campaigns IS 'Advertising campaign data synced from external API';
@@ -40,4 +53,112 @@ COMMENT ON COLUMN campaigns.impressions IS 'Total ad impressions';
 COMMENT ON COLUMN campaigns.clicks IS 'Total ad clicks';
 COMMENT ON COLUMN campaigns.conversions IS 'Total conversions';
 COMMENT ON COLUMN campaigns.created_at IS 'Campaign creation timestamp';
-COMMENT ON COLUMN campaigns.synced_at IS 'Last synchronization timestamp';
\ No newline at end of file
+COMMENT ON COLUMN campaigns.synced_at IS 'Last synchronization timestamp';
+COMMENT ON COLUMN campaigns.content_hash IS 'SHA-256 of synced fields, used by incremental sync';
+COMMENT ON COLUMN campaigns.deleted_at IS 'Set when the campaign disappeared upstream (soft delete)';
+
+-- Create sync checkpoints table
+CREATE TABLE sync_checkpoints (
+    name VARCHAR(100) PRIMARY KEY,
+    last_synced_at TIMESTAMP NOT NULL,
+    campaign_count INTEGER NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE sync_checkpoints IS 'High-water marks of the last successful sync runs';
+
+-- Create campaign metrics history table (append-only, one row per sync)
+CREATE TABLE campaign_metrics_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    campaign_id VARCHAR(255) NOT NULL,
+    status VARCHAR(50) NOT NULL,
+    budget DECIMAL(15, 2) NOT NULL,
+    impressions INTEGER NOT NULL,
+    clicks INTEGER NOT NULL,
+    conversions INTEGER NOT NULL,
+    captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_metrics_snapshots_campaign_captured
+    ON campaign_metrics_snapshots(campaign_id, captured_at DESC);
+
+COMMENT ON TABLE campaign_metrics_snapshots IS 'Campaign metrics captured on every sync';
+
+-- Create sync run history tables
+CREATE TABLE sync_runs (
+    id VARCHAR(64) PRIMARY KEY,
+    mode VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'completed',
+    started_at TIMESTAMP NOT NULL,
+    finished_at TIMESTAMP,
+    duration_ms INTEGER,
+    total_campaigns INTEGER NOT NULL,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    success_count INTEGER NOT NULL,
+    failure_count INTEGER NOT NULL,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    backoff_ms BIGINT NOT NULL DEFAULT 0,
+    listing_complete BOOLEAN NOT NULL DEFAULT FALSE,
+
+    CONSTRAINT sync_runs_status_check
+        CHECK (status IN ('running', 'interrupted', 'completed', 'failed'))
+);
+
+CREATE INDEX idx_sync_runs_started_at ON sync_runs(started_at DESC);
+CREATE INDEX idx_sync_runs_unfinished
+    ON sync_runs(started_at DESC) WHERE status IN ('running', 'interrupted');
+
+CREATE TABLE sync_run_results (
+    run_id VARCHAR(64) NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+    campaign_id VARCHAR(255) NOT NULL,
+    success BOOLEAN NOT NULL,
+    retries INTEGER NOT NULL DEFAULT 0,
+    duration_ms INTEGER NOT NULL,
+    error_code VARCHAR(50),
+    error_message TEXT,
+    backoff_ms INTEGER NOT NULL DEFAULT 0,
+    attempt_error_codes TEXT[] NOT NULL DEFAULT '{}',
+    PRIMARY KEY (run_id, campaign_id)
+);
+
+CREATE INDEX idx_sync_run_results_failures ON sync_run_results(run_id) WHERE NOT success;
+
+CREATE TABLE sync_run_campaigns (
+    run_id VARCHAR(64) NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+    campaign_id VARCHAR(255) NOT NULL,
+    position INTEGER NOT NULL,
+    payload JSONB NOT NULL,
+    state VARCHAR(20) NOT NULL DEFAULT 'pending',
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (run_id, campaign_id),
+
+    CONSTRAINT sync_run_campaigns_state_check CHECK (state IN ('pending', 'succeeded', 'failed'))
+);
+
+CREATE TABLE dead_letter_campaigns (
+    campaign_id VARCHAR(255) PRIMARY KEY,
+    run_id VARCHAR(64) REFERENCES sync_runs(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    error_code VARCHAR(50),
+    error_message TEXT,
+    failure_count INTEGER NOT NULL DEFAULT 1,
+    first_failed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_failed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_dead_letter_campaigns_last_failed_at ON dead_letter_campaigns(last_failed_at DESC);
+
+CREATE TABLE rate_limit_slots (
+    id BIGSERIAL PRIMARY KEY,
+    limiter_key VARCHAR(255) NOT NULL,
+    acquired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_rate_limit_slots_key_acquired_at ON rate_limit_slots(limiter_key, acquired_at);
+
+COMMENT ON TABLE sync_runs IS 'One row per sync run with its summary counts';
+COMMENT ON TABLE sync_run_results IS 'Per-campaign outcome of each sync run';
+COMMENT ON TABLE sync_run_campaigns IS 'Campaign list and completion state of a run, used to resume it';
+COMMENT ON COLUMN sync_runs.status IS 'running until a report is saved; interrupted if the run was stopped early';
+COMMENT ON TABLE dead_letter_campaigns IS 'Campaigns still failing after end-of-run re-queueing; cleared when they sync';
+COMMENT ON TABLE rate_limit_slots IS 'Request slots claimed by sync processes sharing a rate limit key; pruned as they leave the window';
\ No newline at end of file
@@ -3,8 +3,10 @@
  */
 
 import { ITokenManager } from '../auth/types';
-import { RateLimiter } from './RateLimiter';
-import { RequestOptions } from './types';
+import { CircuitBreaker } from './CircuitBreaker';
+import { RetryBudget } from './RetryBudget';
+import { RetryConfig, Token } from '../types';
+import { IRateLimiter, RequestOptions, ServerRateLimit } from './types';
 import {
   ApiError,
   RateLimitError,
@@ -12,10 +14,30 @@ import {
   TimeoutError,
   NetworkError,
   TokenExpiredError,
+  getAbortError,
 } from '../utils/ErrorHandler';
 import { logger } from '../utils/Logger';
-import { withRetry } from '../utils/RetryStrategy';
-import { timeout as timeoutPromise } from '../utils/helpers';
+import {
+  DEFAULT_RETRY_CONFIG,
+  resolveRetryPolicy,
+  withRetry,
+} from '../utils/RetryStrategy';
+import { abortable, createTimeoutSignal } from '../utils/helpers';
+
+/**
+ * X-RateLimit-Reset values above this are epoch seconds, not a delay
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Token state of one request across its attempts
+ */
+interface RequestAuth {
+  /** Token sent with the latest attempt */
+  token: Token | null;
+  /** Whether the request was already re-sent with a renewed token */
+  renewed: boolean;
+}
 
 /**
  * API Client class
@@ -24,9 +46,12 @@ export class ApiClient {
   constructor(
     private baseUrl: string,
     private tokenManager: ITokenManager,
-    private rateLimiter: RateLimiter,
+    private rateLimiter: IRateLimiter,
     private defaultTimeout = 5000,
-    private fetchFn: typeof fetch = fetch
+    private fetchFn: typeof fetch = fetch,
+    private circuitBreaker?: CircuitBreaker,
+    private retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    private retryBudget?: RetryBudget
   ) {}
 
   /**
@@ -94,24 +119,68 @@ export class ApiClient {
   ): Promise<T> {
     const requestTimeout = options.timeout || this.defaultTimeout;
     const url = `${this.baseUrl}${path}`;
+    const retryPolicy = {
+      ...resolveRetryPolicy(this.retryConfig, options.operation),
+      ...options.retry,
+    };
+
+    // Non-idempotent requests are sent exactly once
+    if (options.retryable === false) {
+      retryPolicy.maxAttempts = 1;
+    }
+
+    // Endpoints with their own quota have their own limiter
+    const rateLimiter = this.rateLimiter.forPath(path);
+
+    // Retries draw on the budget shared by all requests
+    const retryBudget = this.retryBudget;
+    retryBudget?.recordRequest();
+
+    const auth: RequestAuth = { token: null, renewed: false };
+
+    // The token is fetched before taking a rate limit slot, since acquiring
+    // it may itself wait on the limiter of the auth endpoint
+    const send = async () => {
+      const token = await this.tokenManager.getToken(options.signal);
+      auth.token = token;
+
+      // Execute with rate limiting
+      return rateLimiter.execute(async () => {
+        // Make the actual HTTP request
+        return this.executeRequest<T>(url, options, requestTimeout, rateLimiter, token);
+      }, 0, options.signal);
+    };
 
     // Wrap request in retry logic
     return withRetry(
       async () => {
-        // Execute with rate limiting
-        return this.rateLimiter.execute(async () => {
-          // Make the actual HTTP request
-          return this.executeRequest<T>(url, options, requestTimeout);
-        });
+        const attempt = async () => {
+          try {
+            return await send();
+          } catch (error) {
+            if (!(error instanceof TokenExpiredError) || auth.renewed || !auth.token) {
+              throw error;
+            }
+
+            // A revoked token still looks valid locally until it expires,
+            // so renew it and re-send once without waiting for a retry
+            auth.renewed = true;
+            await this.renewToken(auth.token, options.signal);
+            return send();
+          }
+        };
+
+        // Fail fast while the upstream is known to be down
+        return this.circuitBreaker ? this.circuitBreaker.execute(attempt) : attempt();
       },
       {
-        maxAttempts: 5,
-        baseDelay: 1000,
-        jitter: 250,
-        maxDelay: 16000,
+        ...retryPolicy,
         retryableErrors: [],
+        onRetry: options.onRetry,
+        acquireRetry: retryBudget ? () => retryBudget.tryAcquireRetry() : undefined,
+        signal: options.signal,
       },
-      { url, method: options.method || 'GET' }
+      { url, method: options.method || 'GET', operation: options.operation }
     );
   }
 
@@ -121,12 +190,13 @@ export class ApiClient {
   private async executeRequest<T>(
     url: string,
     options: Partial<RequestOptions>,
-    requestTimeout: number
+    requestTimeout: number,
+    rateLimiter: IRateLimiter,
+    token: Token
   ): Promise<T> {
-    try {
-      // Get fresh token
-      const token = await this.tokenManager.getToken();
+    let timeout: ReturnType<typeof createTimeoutSignal> | undefined;
 
+    try {
       // Build headers
       const headers: Record<string, string> = {
         'Authorization': `${token.token_type} ${token.access_token}`,
@@ -134,6 +204,11 @@ export class ApiClient {
         ...options.headers,
       };
 
+      // Lets the server recognise a retry of a request it already processed
+      if (options.idempotencyKey) {
+        headers['Idempotency-Key'] = options.idempotencyKey;
+      }
+
       // Build request init
       const init: RequestInit = {
         method: options.method || 'GET',
@@ -144,6 +219,14 @@ export class ApiClient {
         init.body = JSON.stringify(options.body);
       }
 
+      // Abort the request on timeout or cancellation, closing its socket
+      timeout = createTimeoutSignal(
+        requestTimeout,
+        () => new TimeoutError(`Request timeout after ${requestTimeout}ms`, { url }),
+        options.signal
+      );
+      init.signal = timeout.signal;
+
       // Make request with timeout
       const startTime = Date.now();
       
@@ -152,17 +235,17 @@ export class ApiClient {
         method: init.method,
       });
 
-      const response = await timeoutPromise(
-        this.fetchFn(url, init),
-        requestTimeout,
-        `Request timeout after ${requestTimeout}ms`
-      );
+      const response = await abortable(this.fetchFn(url, init), timeout.signal);
 
       const duration = Date.now() - startTime;
 
       // Handle response
-      return this.handleResponse<T>(response, url, duration);
+      return this.handleResponse<T>(response, url, duration, rateLimiter);
     } catch (error) {
+      if (timeout?.signal.aborted) {
+        throw getAbortError(timeout.signal);
+      }
+
       // Transform errors
       if (error instanceof Error) {
         if (error.message.includes('timeout')) {
@@ -178,7 +261,26 @@ export class ApiClient {
       }
 
       throw error;
+    } finally {
+      timeout?.clear();
+    }
+  }
+
+  /**
+   * Replace a token the server rejected with 401
+   * Requests rejected with the same token share one refresh, and a token
+   * another request already replaced is not refreshed again
+   */
+  private async renewToken(rejected: Token, signal?: AbortSignal): Promise<void> {
+    const current = await this.tokenManager.getToken(signal);
+
+    if (current.access_token !== rejected.access_token) {
+      return;
     }
+
+    logger.warn('Token rejected by the server, re-authenticating');
+    this.tokenManager.clearToken();
+    await abortable(this.tokenManager.refreshToken(), signal);
   }
 
   /**
@@ -187,7 +289,8 @@ export class ApiClient {
   private async handleResponse<T>(
     response: Response,
     url: string,
-    duration: number
+    duration: number,
+    rateLimiter: IRateLimiter
   ): Promise<T> {
     const { status, statusText } = response;
 
@@ -197,6 +300,12 @@ export class ApiClient {
       duration: `${duration}ms`,
     });
 
+    // Let the rate limiter follow the server's quota
+    const serverRateLimit = this.getServerRateLimit(response);
+    if (serverRateLimit) {
+      rateLimiter.updateFromServer(serverRateLimit);
+    }
+
     // Handle success
     if (response.ok) {
       try {
@@ -224,6 +333,8 @@ export class ApiClient {
     if (status === 429) {
       const retryAfter = this.getRetryAfter(response);
       logger.warn(`Rate limit exceeded`, { retryAfter });
+      // Hold every queued request rather than letting each discover the 429
+      rateLimiter.pause(retryAfter * 1000);
       throw new RateLimitError(retryAfter, errorBody || 'Rate limit exceeded');
     }
 
@@ -264,6 +375,25 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Get the server's quota from X-RateLimit-* headers
+   * X-RateLimit-Reset may be epoch seconds or seconds until reset
+   */
+  private getServerRateLimit(response: Response): ServerRateLimit | null {
+    const remaining = parseInt(response.headers.get('x-ratelimit-remaining') ?? '', 10);
+    const reset = parseInt(response.headers.get('x-ratelimit-reset') ?? '', 10);
+
+    if (isNaN(remaining) || isNaN(reset)) {
+      return null;
+    }
+
+    const resetAt = reset > EPOCH_SECONDS_THRESHOLD
+      ? reset * 1000
+      : Date.now() + reset * 1000;
+
+    return { remaining: Math.max(0, remaining), resetAt };
+  }
+
   /**
    * Get retry-after value from response headers
    */
@@ -297,13 +427,20 @@ export class ApiClient {
 export function createApiClient(
   baseUrl: string,
   tokenManager: ITokenManager,
-  rateLimiter: RateLimiter,
-  defaultTimeout?: number
+  rateLimiter: IRateLimiter,
+  defaultTimeout?: number,
+  circuitBreaker?: CircuitBreaker,
+  retryConfig?: RetryConfig,
+  retryBudget?: RetryBudget
 ): ApiClient {
   return new ApiClient(
     baseUrl,
     tokenManager,
     rateLimiter,
-    defaultTimeout
+    defaultTimeout,
+    undefined,
+    circuitBreaker,
+    retryConfig,
+    retryBudget
   );
 }
\ No newline at end of file
@@ -2,9 +2,23 @@
  * Campaign service for fetching and syncing campaign data
  */
 
+import { randomUUID } from 'crypto';
 import { ApiClient } from './ApiClient';
-import { Campaign, PaginatedResponse, SyncResponse } from '../types';
+import {
+  Campaign,
+  PaginatedResponse,
+  PaginationStyle,
+  RetryAttempt,
+  RetryPolicy,
+  SyncResponse,
+} from '../types';
 import { logger } from '../utils/Logger';
+import {
+  DEFAULT_RETRY_CONFIG,
+  calculateDelay,
+  resolveRetryPolicy,
+  sleep,
+} from '../utils/RetryStrategy';
 
 /**
  * Campaign Service class
@@ -13,21 +27,30 @@ export class CampaignService {
   constructor(
     private apiClient: ApiClient,
     private fetchTimeout: number,
-    private syncTimeout: number
+    private syncTimeout: number,
+    private fetchConcurrency = 1,
+    private pageRetries = 0,
+    private pageRetryPolicy: RetryPolicy = resolveRetryPolicy(DEFAULT_RETRY_CONFIG, 'fetchPage')
   ) {}
 
   /**
-   * Fetch campaigns page
+   * Fetch campaigns page, by page number or by cursor from the previous page
    */
   public async fetchCampaignsPage(
     page: number,
-    perPage: number
+    perPage: number,
+    cursor?: string,
+    signal?: AbortSignal
   ): Promise<PaginatedResponse<Campaign>> {
-    logger.info(`Fetching campaigns page ${page}`, { page, perPage });
+    logger.info(`Fetching campaigns page ${page}`, { page, perPage, cursor });
+
+    const query = cursor
+      ? `cursor=${encodeURIComponent(cursor)}&per_page=${perPage}`
+      : `page=${page}&per_page=${perPage}`;
 
     const response = await this.apiClient.get<PaginatedResponse<Campaign>>(
-      `/api/campaigns?page=${page}&per_page=${perPage}`,
-      { timeout: this.fetchTimeout }
+      `/api/campaigns?${query}`,
+      { timeout: this.fetchTimeout, operation: 'fetchPage', signal }
     );
 
     logger.info(`Fetched ${response.data.length} campaigns from page ${page}`, {
@@ -40,44 +63,192 @@ export class CampaignService {
   }
 
   /**
-   * Fetch all campaigns across all pages
+   * Fetch a page, retrying it on its own if it still fails after the
+   * client's request-level retries, backing off per the fetchPage policy
+   * Each page retry runs the client's retries again, so a page costs at
+   * most (pageRetries + 1) × maxAttempts requests
    */
-  public async fetchAllCampaigns(perPage: number): Promise<Campaign[]> {
-    const allCampaigns: Campaign[] = [];
-    let currentPage = 1;
-    let hasMore = true;
+  private async fetchPageWithRetry(
+    page: number,
+    perPage: number,
+    cursor?: string,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<Campaign>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchCampaignsPage(page, perPage, cursor, signal);
+      } catch (error) {
+        if (attempt >= this.pageRetries || signal?.aborted) {
+          throw error;
+        }
 
-    logger.info('Starting to fetch all campaigns');
+        const { baseDelay, jitter, maxDelay } = this.pageRetryPolicy;
+        const delay = calculateDelay(attempt, baseDelay, jitter, maxDelay);
+        logger.warn(`Retrying campaigns page ${page} after ${delay}ms`, {
+          attempt: attempt + 1,
+          maxRetries: this.pageRetries,
+          error: (error as Error).message,
+        });
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Fetch pages [from, to] with bounded concurrency, yielding them in order
+   * At most fetchConcurrency pages are in flight or buffered at a time
+   */
+  private async *fetchPagesConcurrently(
+    from: number,
+    to: number,
+    perPage: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<PaginatedResponse<Campaign>> {
+    const inFlight = new Map<number, Promise<PaginatedResponse<Campaign>>>();
+    let nextPage = from;
+
+    for (let page = from; page <= to; page++) {
+      while (nextPage <= to && inFlight.size < this.fetchConcurrency) {
+        const request = this.fetchPageWithRetry(nextPage, perPage, undefined, signal);
+        // Failures surface when the page is awaited in order
+        request.catch(() => undefined);
+        inFlight.set(nextPage, request);
+        nextPage++;
+      }
 
-    while (hasMore) {
-      const response = await this.fetchCampaignsPage(currentPage, perPage);
-      
-      allCampaigns.push(...response.data);
-      
-      hasMore = response.pagination.has_more;
-      currentPage++;
+      const response = await inFlight.get(page)!;
+      inFlight.delete(page);
 
-      logger.debug(`Progress: ${allCampaigns.length} campaigns fetched`, {
-        currentPage: currentPage - 1,
+      yield response;
+    }
+  }
+
+  /**
+   * Stream campaigns page by page
+   * The pagination style is detected from the first response. With page
+   * numbers, the remaining pages known from the first response's total are
+   * fetched concurrently. Campaigns already seen in this fetch are dropped,
+   * since rows inserted or moved during a long fetch can shift page boundaries
+   * Pages are only requested as the consumer asks for them
+   */
+  public async *streamCampaignPages(
+    perPage: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<Campaign[]> {
+    const seenIds = new Set<string>();
+    let currentPage = 1;
+    let duplicates = 0;
+
+    const dedupe = (response: PaginatedResponse<Campaign>): Campaign[] => {
+      const campaigns = response.data.filter(campaign => {
+        if (seenIds.has(campaign.id)) {
+          duplicates++;
+          return false;
+        }
+        seenIds.add(campaign.id);
+        return true;
+      });
+
+      logger.debug(`Progress: ${seenIds.size} campaigns fetched`, {
+        currentPage,
         total: response.pagination.total,
+        duplicates,
       });
+
+      return campaigns;
+    };
+
+    logger.info('Starting to fetch all campaigns');
+
+    let response = await this.fetchPageWithRetry(currentPage, perPage, undefined, signal);
+    const style = detectPaginationStyle(response);
+
+    logger.debug(`Using ${style} pagination`);
+
+    yield dedupe(response);
+
+    if (style === 'cursor') {
+      let cursor: string | undefined;
+      let nextCursor = getNextCursor(response);
+
+      while (nextCursor) {
+        // A repeated cursor would loop forever
+        if (nextCursor === cursor) {
+          logger.warn('API returned the same cursor twice, stopping pagination', {
+            cursor: nextCursor,
+          });
+          break;
+        }
+
+        cursor = nextCursor;
+        currentPage++;
+        response = await this.fetchPageWithRetry(currentPage, perPage, cursor, signal);
+        yield dedupe(response);
+        nextCursor = getNextCursor(response);
+      }
+    } else {
+      const { total, per_page: pageSize, has_more: hasMore } = response.pagination;
+      const knownPages = hasMore && total !== undefined
+        ? Math.ceil(total / (pageSize || perPage))
+        : currentPage;
+
+      for await (const pageResponse of this.fetchPagesConcurrently(2, knownPages, perPage, signal)) {
+        response = pageResponse;
+        currentPage++;
+        yield dedupe(response);
+      }
+
+      // Campaigns added since the first page extend the listing
+      while (response.pagination.has_more) {
+        currentPage++;
+        response = await this.fetchPageWithRetry(currentPage, perPage, undefined, signal);
+        yield dedupe(response);
+      }
     }
 
-    logger.info(`Fetched all ${allCampaigns.length} campaigns across ${currentPage - 1} pages`);
+    if (duplicates > 0) {
+      logger.warn(`Skipped ${duplicates} duplicate campaigns returned across pages`);
+    }
+
+    logger.info(`Fetched all ${seenIds.size} campaigns across ${currentPage} pages`);
+  }
+
+  /**
+   * Fetch all campaigns across all pages
+   */
+  public async fetchAllCampaigns(perPage: number, signal?: AbortSignal): Promise<Campaign[]> {
+    const allCampaigns: Campaign[] = [];
+
+    for await (const page of this.streamCampaignPages(perPage, signal)) {
+      allCampaigns.push(...page);
+    }
 
     return allCampaigns;
   }
 
   /**
    * Sync individual campaign
+   * Each call gets its own idempotency key, reused by the client's retries,
+   * so a retry after a timeout cannot trigger a duplicate sync.
+   * onRetry is told about each retried attempt of the request
    */
-  public async syncCampaign(campaignId: string): Promise<SyncResponse> {
+  public async syncCampaign(
+    campaignId: string,
+    onRetry?: (attempt: RetryAttempt) => void,
+    signal?: AbortSignal
+  ): Promise<SyncResponse> {
     logger.debug(`Syncing campaign ${campaignId}`);
 
     const response = await this.apiClient.post<SyncResponse>(
       `/api/campaigns/${campaignId}/sync`,
       {},
-      { timeout: this.syncTimeout }
+      {
+        timeout: this.syncTimeout,
+        operation: 'syncCampaign',
+        idempotencyKey: `sync-${campaignId}-${randomUUID()}`,
+        onRetry,
+        signal,
+      }
     );
 
     if (!response.success) {
@@ -94,25 +265,51 @@ export class CampaignService {
   /**
    * Get single campaign details
    */
-  public async getCampaign(campaignId: string): Promise<Campaign> {
+  public async getCampaign(campaignId: string, signal?: AbortSignal): Promise<Campaign> {
     logger.debug(`Fetching campaign ${campaignId}`);
 
     const response = await this.apiClient.get<Campaign>(
       `/api/campaigns/${campaignId}`,
-      { timeout: this.fetchTimeout }
+      { timeout: this.fetchTimeout, signal }
     );
 
     return response;
   }
 }
 
+/**
+ * Get the cursor for the next page, if the response carries one
+ */
+function getNextCursor(response: PaginatedResponse<Campaign>): string | null {
+  return response.pagination.next_cursor ?? response.pagination.next ?? null;
+}
+
+/**
+ * Detect pagination style from a response
+ * Cursor APIs include a next_cursor/next field, even if null on the last page
+ */
+function detectPaginationStyle(response: PaginatedResponse<Campaign>): PaginationStyle {
+  const { pagination } = response;
+  return 'next_cursor' in pagination || 'next' in pagination ? 'cursor' : 'page';
+}
+
 /**
  * Create campaign service instance
  */
 export function createCampaignService(
   apiClient: ApiClient,
   fetchTimeout: number,
-  syncTimeout: number
+  syncTimeout: number,
+  fetchConcurrency?: number,
+  pageRetries?: number,
+  pageRetryPolicy?: RetryPolicy
 ): CampaignService {
-  return new CampaignService(apiClient, fetchTimeout, syncTimeout);
+  return new CampaignService(
+    apiClient,
+    fetchTimeout,
+    syncTimeout,
+    fetchConcurrency,
+    pageRetries,
+    pageRetryPolicy
+  );
 }
\ No newline at end of file
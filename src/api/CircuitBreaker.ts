@@ -0,0 +1,205 @@
+/**
+ * Circuit breaker for upstream API outages
+ * - Closed: requests flow, consecutive 5xx/timeouts are counted
+ * - Open: requests fail fast until the reset timeout elapses
+ * - Half-open: a single probe request decides whether to close or re-open
+ */
+
+import { CircuitBreakerConfig } from './types';
+import { CircuitState, CircuitTransition, ErrorCode } from '../types';
+import { AppError, CircuitOpenError, isErrorCode } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Maximum number of transitions kept in history
+ */
+const MAX_TRANSITIONS = 100;
+
+/**
+ * Error codes that indicate the upstream is unhealthy
+ */
+const TRIPPING_ERRORS = [
+  ErrorCode.SERVICE_UNAVAILABLE,
+  ErrorCode.TIMEOUT,
+  ErrorCode.NETWORK_ERROR,
+];
+
+/**
+ * Check if an error counts against the circuit
+ * Other errors mean the upstream answered, so it is considered healthy
+ */
+export function isTrippingError(error: Error): boolean {
+  if (!(error instanceof AppError)) {
+    return false;
+  }
+
+  return (
+    TRIPPING_ERRORS.includes(error.code) ||
+    (error.code === ErrorCode.API_ERROR && (error.statusCode ?? 0) >= 500)
+  );
+}
+
+/**
+ * Circuit Breaker class
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private transitions: CircuitTransition[] = [];
+
+  constructor(
+    private config: CircuitBreakerConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Execute function through the circuit
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeRequest();
+
+    const isProbe = this.state === 'half_open';
+    if (isProbe) {
+      this.probeInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      // A cancelled request says nothing about upstream health, so it
+      // neither counts against the circuit nor closes it
+      if (isErrorCode(error as Error, ErrorCode.CANCELLED)) {
+        throw error;
+      }
+
+      if (isTrippingError(error as Error)) {
+        this.onFailure(error as Error);
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Get current state, moving to half-open once the reset timeout elapsed
+   */
+  public getState(): CircuitState {
+    if (this.state === 'open' && this.getRemainingOpenMs() === 0) {
+      this.transition('half_open', 'reset timeout elapsed');
+    }
+    return this.state;
+  }
+
+  /**
+   * Get state transitions, optionally only those at or after a time
+   */
+  public getTransitions(since?: Date): CircuitTransition[] {
+    return since
+      ? this.transitions.filter(t => t.at.getTime() >= since.getTime())
+      : [...this.transitions];
+  }
+
+  /**
+   * Reject the request if the circuit does not allow it
+   */
+  private beforeRequest(): void {
+    const state = this.getState();
+
+    if (state === 'open') {
+      throw new CircuitOpenError(
+        Math.ceil(this.getRemainingOpenMs() / 1000),
+        `Circuit breaker is open after ${this.consecutiveFailures} consecutive failures`
+      );
+    }
+
+    if (state === 'half_open' && this.probeInFlight) {
+      throw new CircuitOpenError(
+        Math.ceil(this.config.resetTimeoutMs / 1000),
+        'Circuit breaker is half-open and waiting on its probe request'
+      );
+    }
+  }
+
+  /**
+   * Record a healthy response
+   */
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half_open') {
+      this.transition('closed', 'probe request succeeded');
+    }
+  }
+
+  /**
+   * Record an upstream failure
+   */
+  private onFailure(error: Error): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open') {
+      this.open(`probe request failed: ${error.message}`);
+    } else if (
+      this.state === 'closed' &&
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.open(`${this.consecutiveFailures} consecutive failures, last: ${error.message}`);
+    }
+  }
+
+  /**
+   * Open the circuit
+   */
+  private open(reason: string): void {
+    this.openedAt = this.now();
+    this.transition('open', reason);
+  }
+
+  /**
+   * Milliseconds until an open circuit may probe
+   */
+  private getRemainingOpenMs(): number {
+    return Math.max(0, this.openedAt + this.config.resetTimeoutMs - this.now());
+  }
+
+  /**
+   * Change state and record the transition
+   */
+  private transition(to: CircuitState, reason: string): void {
+    const transition: CircuitTransition = {
+      from: this.state,
+      to,
+      at: new Date(this.now()),
+      reason,
+    };
+
+    this.state = to;
+    this.transitions.push(transition);
+    if (this.transitions.length > MAX_TRANSITIONS) {
+      this.transitions.shift();
+    }
+
+    const message = `Circuit breaker ${transition.from} → ${to}`;
+    if (to === 'open') {
+      logger.warn(message, { reason, resetTimeoutMs: this.config.resetTimeoutMs });
+    } else {
+      logger.info(message, { reason });
+    }
+  }
+}
+
+/**
+ * Create circuit breaker instance
+ */
+export function createCircuitBreaker(config: CircuitBreakerConfig): CircuitBreaker {
+  return new CircuitBreaker(config);
+}
\ No newline at end of file
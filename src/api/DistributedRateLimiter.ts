@@ -0,0 +1,101 @@
+/**
+ * Rate limiter whose request slots are shared between processes
+ * - Slots are claimed through a shared store (Postgres), so workers using
+ *   the same key together stay within the upstream quota
+ * - Queueing, server feedback and 429 pauses are the local limiter's and
+ *   apply to this process only
+ */
+
+import { RateLimitConfig, RateLimitInfo } from './types';
+import { QueuedRateLimiter } from './RateLimiter';
+import { RateLimitSlot } from '../types';
+import { logger } from '../utils/Logger';
+
+/**
+ * Claim a slot in the shared window of a key
+ */
+export type AcquireSlotFn = (
+  key: string,
+  maxRequests: number,
+  windowMs: number
+) => Promise<RateLimitSlot>;
+
+/**
+ * Distributed Rate Limiter class
+ */
+export class DistributedRateLimiter extends QueuedRateLimiter {
+  private lastSlot: RateLimitSlot | null = null;
+  private lastSlotAt = 0;
+
+  constructor(
+    private key: string,
+    config: RateLimitConfig,
+    private acquireSlotFn: AcquireSlotFn
+  ) {
+    super(config);
+  }
+
+  /**
+   * Claim a shared slot, unless paused or the server's quota is spent
+   */
+  protected async acquireSlot(): Promise<boolean> {
+    if (!this.canMakeRequest()) {
+      return false;
+    }
+
+    const slot = await this.acquireSlotFn(this.key, this.config.maxRequests, this.config.windowMs);
+    this.lastSlot = slot;
+    this.lastSlotAt = Date.now();
+
+    if (!slot.acquired) {
+      logger.debug(`Waiting ${slot.retryAfterMs}ms for a shared rate limit slot`, {
+        key: this.key,
+        queueLength: this.getQueueLength(),
+      });
+      return false;
+    }
+
+    this.recordRequest();
+    return true;
+  }
+
+  /**
+   * Capacity as of the last claim; other processes may have taken slots
+   * since, so once its reset has passed the store is worth asking again
+   */
+  protected getLocalInfo(now: number): Omit<RateLimitInfo, 'total'> {
+    if (!this.lastSlot) {
+      return { remaining: this.config.maxRequests, resetAt: now };
+    }
+
+    const resetAt = this.lastSlotAt + this.lastSlot.retryAfterMs;
+
+    return {
+      remaining: resetAt <= now ? Math.max(1, this.lastSlot.remaining) : this.lastSlot.remaining,
+      resetAt,
+    };
+  }
+
+  /**
+   * Claimed slots are recorded in the shared store
+   */
+  protected consume(_now: number): void {}
+
+  /**
+   * Forget the last claim; slots already claimed stay in the shared window
+   */
+  protected reset(): void {
+    this.lastSlot = null;
+  }
+}
+
+/**
+ * Create distributed rate limiter instance
+ */
+export function createDistributedRateLimiter(
+  key: string,
+  config: RateLimitConfig,
+  acquireSlotFn: AcquireSlotFn
+): DistributedRateLimiter {
+  return new DistributedRateLimiter(key, config, acquireSlotFn);
+}
\ No newline at end of file
@@ -1,66 +1,95 @@
 /**
- * Rate limiter with sliding window algorithm
- * - Tracks requests in a sliding time window
+ * Rate limiters
+ * - Sliding window log or token bucket, selected by config
  * - Queues requests when limit is reached
  * - Respects retry-after headers
+ * - Adapts to the quota the server reports, and pauses on 429
  */
 
-import { RateLimitConfig, RateLimitInfo } from './types';
-import { RateLimitState, QueuedRequest } from '../types';
+import {
+  IRateLimiter,
+  RateLimitConfig,
+  RateLimitInfo,
+  ServerRateLimit,
+} from './types';
+import { QueuedRequest } from '../types';
+import { getAbortError } from '../utils/ErrorHandler';
 import { logger } from '../utils/Logger';
 import { generateId } from '../utils/helpers';
 
 /**
- * Rate Limiter class
+ * Queueing, pausing and server feedback shared by all algorithms
+ * Subclasses decide how much local capacity is left, and may claim each
+ * slot elsewhere by overriding acquireSlot
  */
-export class RateLimiter {
-  private state: RateLimitState = {
-    requests: [],
-    queue: [],
-  };
+export abstract class QueuedRateLimiter implements IRateLimiter {
+  private queue: QueuedRequest[] = [];
   private processing = false;
+  private pausedUntil = 0;
+  private server: ServerRateLimit | null = null;
 
-  constructor(private config: RateLimitConfig) {}
+  constructor(protected config: RateLimitConfig) {}
 
   /**
    * Execute function with rate limiting
    */
   public async execute<T>(
     fn: () => Promise<T>,
-    priority = 0
+    priority = 0,
+    signal?: AbortSignal
   ): Promise<T> {
-    // Check if we can execute immediately
-    if (this.canMakeRequest()) {
-      this.recordRequest();
+    if (signal?.aborted) {
+      throw getAbortError(signal);
+    }
+
+    // Check if we can execute immediately; a local limiter answers
+    // synchronously, so a request it cannot take is queued at once
+    const acquired = this.acquireSlot();
+    if (acquired === true || (acquired !== false && (await acquired))) {
       return fn();
     }
 
     // Queue the request
-    return this.queueRequest(fn, priority);
+    return this.queueRequest(fn, priority, signal);
+  }
+
+  /**
+   * A single limiter applies to every path
+   */
+  public forPath(_path: string): IRateLimiter {
+    return this;
   }
 
   /**
    * Check if we can make a request now
    */
   public canMakeRequest(): boolean {
-    this.cleanOldRequests();
-    return this.state.requests.length < this.config.maxRequests;
+    return this.getInfo().remaining > 0;
   }
 
   /**
    * Get rate limit info
    */
   public getInfo(): RateLimitInfo {
-    this.cleanOldRequests();
-    
-    const remaining = Math.max(
-      0,
-      this.config.maxRequests - this.state.requests.length
-    );
-    
-    // Calculate when the oldest request will expire
-    const oldestRequest = this.state.requests[0] || Date.now();
-    const resetAt = oldestRequest + this.config.windowMs;
+    const now = Date.now();
+    let { remaining, resetAt } = this.getLocalInfo(now);
+
+    // The server's quota applies until it refills
+    if (this.server && this.server.resetAt <= now) {
+      this.server = null;
+    }
+    if (this.server && this.server.remaining < remaining) {
+      remaining = this.server.remaining;
+      if (remaining === 0) {
+        resetAt = this.server.resetAt;
+      }
+    }
+
+    // A pause blocks on its own, or on top of an exhausted window
+    if (this.pausedUntil > now) {
+      resetAt = remaining > 0 ? this.pausedUntil : Math.max(resetAt, this.pausedUntil);
+      remaining = 0;
+    }
     
     return {
       remaining,
@@ -69,11 +98,34 @@ export class RateLimiter {
     };
   }
 
+  /**
+   * Adopt the quota reported by the server
+   * The latest report replaces the previous one
+   */
+  public updateFromServer(server: ServerRateLimit): void {
+    this.server = server.resetAt > Date.now() ? { ...server } : null;
+  }
+
+  /**
+   * Hold all requests, queued and new, for a period
+   * Used on 429 so the whole queue backs off together
+   */
+  public pause(ms: number): void {
+    const until = Date.now() + ms;
+
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      logger.warn(`Rate limiter paused for ${ms}ms`, {
+        queueLength: this.queue.length,
+      });
+    }
+  }
+
   /**
    * Get queue length
    */
   public getQueueLength(): number {
-    return this.state.queue.length;
+    return this.queue.length;
   }
 
   /**
@@ -98,28 +150,52 @@ export class RateLimiter {
    * Clear the rate limiter state
    */
   public clear(): void {
-    this.state.requests = [];
-    this.state.queue = [];
+    this.queue = [];
     this.processing = false;
+    this.pausedUntil = 0;
+    this.server = null;
+    this.reset();
   }
 
   /**
-   * Record a request
+   * Take a slot for one request if capacity allows, recording it
+   * Local capacity is checked and taken synchronously, so concurrent
+   * callers cannot both take the last slot
    */
-  private recordRequest(): void {
-    this.state.requests.push(Date.now());
+  protected acquireSlot(): boolean | Promise<boolean> {
+    if (!this.canMakeRequest()) {
+      return false;
+    }
+
+    this.recordRequest();
+    return true;
   }
 
   /**
-   * Clean old requests outside the window
+   * Local capacity left, and when more becomes available
    */
-  private cleanOldRequests(): void {
-    const now = Date.now();
-    const cutoff = now - this.config.windowMs;
-    
-    this.state.requests = this.state.requests.filter(
-      timestamp => timestamp > cutoff
-    );
+  protected abstract getLocalInfo(now: number): Omit<RateLimitInfo, 'total'>;
+
+  /**
+   * Take one unit of local capacity
+   */
+  protected abstract consume(now: number): void;
+
+  /**
+   * Restore full local capacity
+   */
+  protected abstract reset(): void;
+
+  /**
+   * Record a request
+   */
+  protected recordRequest(): void {
+    this.consume(Date.now());
+
+    // Count against the server's quota until its next report
+    if (this.server) {
+      this.server.remaining = Math.max(0, this.server.remaining - 1);
+    }
   }
 
   /**
@@ -127,20 +203,35 @@ export class RateLimiter {
    */
   private queueRequest<T>(
     fn: () => Promise<T>,
-    priority: number
+    priority: number,
+    signal?: AbortSignal
   ): Promise<T> {
     return new Promise((resolve, reject) => {
+      // Drop the request if it is cancelled while waiting
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(getAbortError(signal!));
+        }
+      };
+
       const request: QueuedRequest = {
         id: generateId('req'),
-        execute: fn as () => Promise<unknown>,
+        execute: () => {
+          signal?.removeEventListener('abort', onAbort);
+          return fn();
+        },
         resolve: resolve as (value: unknown) => void,
         reject,
         priority,
         timestamp: Date.now(),
       };
 
-      this.state.queue.push(request);
-      this.state.queue.sort((a, b) => {
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(request);
+      this.queue.sort((a, b) => {
         // Sort by priority (higher first), then timestamp (older first)
         if (a.priority !== b.priority) {
           return b.priority - a.priority;
@@ -150,7 +241,7 @@ export class RateLimiter {
 
       logger.debug(`Request queued`, {
         requestId: request.id,
-        queueLength: this.state.queue.length,
+        queueLength: this.queue.length,
         priority,
       });
 
@@ -171,26 +262,33 @@ export class RateLimiter {
 
     this.processing = true;
 
-    while (this.state.queue.length > 0) {
-      // Wait if rate limit reached
-      if (!this.canMakeRequest()) {
+    while (this.queue.length > 0) {
+      let acquired: boolean;
+      try {
+        acquired = await this.acquireSlot();
+      } catch (error) {
+        // Without a slot the quota cannot be honoured
+        this.queue.shift()?.reject(error as Error);
+        continue;
+      }
+
+      // Wait if rate limit reached, or paused while waiting
+      if (!acquired) {
         await this.waitForReset();
+        continue;
       }
 
       // Get next request from queue
-      const request = this.state.queue.shift();
+      const request = this.queue.shift();
       
       if (!request) {
         break;
       }
 
-      // Record request and execute
-      this.recordRequest();
-
       try {
         logger.debug(`Processing queued request`, {
           requestId: request.id,
-          remainingQueue: this.state.queue.length,
+          remainingQueue: this.queue.length,
         });
 
         const result = await request.execute();
@@ -205,8 +303,107 @@ export class RateLimiter {
 }
 
 /**
- * Create rate limiter instance
+ * Rate limiter with sliding window algorithm
+ * Tracks requests in a sliding time window
+ */
+export class RateLimiter extends QueuedRateLimiter {
+  private requests: number[] = [];
+
+  protected getLocalInfo(now: number): Omit<RateLimitInfo, 'total'> {
+    this.cleanOldRequests(now);
+
+    // Calculate when the oldest request will expire
+    const oldestRequest = this.requests[0] || now;
+
+    return {
+      remaining: Math.max(0, this.config.maxRequests - this.requests.length),
+      resetAt: oldestRequest + this.config.windowMs,
+    };
+  }
+
+  protected consume(now: number): void {
+    this.requests.push(now);
+  }
+
+  protected reset(): void {
+    this.requests = [];
+  }
+
+  /**
+   * Clean old requests outside the window
+   */
+  private cleanOldRequests(now: number): void {
+    const cutoff = now - this.config.windowMs;
+    
+    this.requests = this.requests.filter(
+      timestamp => timestamp > cutoff
+    );
+  }
+}
+
+/**
+ * Rate limiter with token bucket algorithm
+ * Holds up to maxRequests tokens, refilled evenly over windowMs, so bursts
+ * are allowed but sustained traffic is spread across the window
+ */
+export class TokenBucketRateLimiter extends QueuedRateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(config: RateLimitConfig) {
+    super(config);
+    this.tokens = config.maxRequests;
+  }
+
+  protected getLocalInfo(now: number): Omit<RateLimitInfo, 'total'> {
+    this.refill(now);
+
+    const remaining = Math.floor(this.tokens);
+    // Next token when empty, otherwise a full bucket
+    const missing = remaining > 0 ? this.config.maxRequests - this.tokens : 1 - this.tokens;
+
+    return {
+      remaining,
+      resetAt: now + Math.ceil(missing / this.getRefillRate()),
+    };
+  }
+
+  protected consume(now: number): void {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  protected reset(): void {
+    this.tokens = this.config.maxRequests;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Tokens added per millisecond
+   */
+  private getRefillRate(): number {
+    return this.config.maxRequests / this.config.windowMs;
+  }
+
+  /**
+   * Add the tokens earned since the last refill
+   */
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill);
+
+    this.tokens = Math.min(
+      this.config.maxRequests,
+      this.tokens + elapsed * this.getRefillRate()
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Create rate limiter instance for the configured algorithm
  */
-export function createRateLimiter(config: RateLimitConfig): RateLimiter {
-  return new RateLimiter(config);
+export function createRateLimiter(config: RateLimitConfig): IRateLimiter {
+  return config.algorithm === 'token_bucket'
+    ? new TokenBucketRateLimiter(config)
+    : new RateLimiter(config);
 }
\ No newline at end of file
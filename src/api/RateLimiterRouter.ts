@@ -0,0 +1,139 @@
+/**
+ * Per-endpoint rate limiting
+ * Routes each request path to the limiter of the first matching pattern,
+ * so endpoints with separate upstream quotas cannot starve each other
+ */
+
+import {
+  IRateLimiter,
+  RateLimitConfig,
+  RateLimitInfo,
+  ServerRateLimit,
+} from './types';
+import { createRateLimiter } from './RateLimiter';
+import { EndpointRateLimit } from '../types';
+
+/**
+ * Endpoint route
+ */
+interface RateLimitRoute {
+  pattern: string;
+  regex: RegExp;
+  limiter: IRateLimiter;
+}
+
+/**
+ * Compile a path pattern; `*` matches within a single path segment
+ * The query string is ignored when matching
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+
+  return new RegExp(`^${source}(\\?.*)?$`);
+}
+
+/**
+ * Rate Limiter Router class
+ * Requests matching no pattern share the default limiter
+ */
+export class RateLimiterRouter implements IRateLimiter {
+  private routes: RateLimitRoute[];
+
+  constructor(
+    private defaultLimiter: IRateLimiter,
+    routes: Array<{ pattern: string; limiter: IRateLimiter }> = []
+  ) {
+    this.routes = routes.map(route => ({
+      ...route,
+      regex: compilePathPattern(route.pattern),
+    }));
+  }
+
+  /**
+   * Get the limiter for a request path
+   */
+  public forPath(path: string): IRateLimiter {
+    const route = this.routes.find(r => r.regex.test(path));
+    return route ? route.limiter : this.defaultLimiter;
+  }
+
+  /**
+   * Execute function with the default limiter
+   */
+  public execute<T>(fn: () => Promise<T>, priority?: number, signal?: AbortSignal): Promise<T> {
+    return this.defaultLimiter.execute(fn, priority, signal);
+  }
+
+  /**
+   * Check the default limiter, which execute uses; use forPath for an endpoint's
+   */
+  public canMakeRequest(): boolean {
+    return this.defaultLimiter.canMakeRequest();
+  }
+
+  /**
+   * Get the default limiter's state; use forPath for an endpoint's
+   */
+  public getInfo(): RateLimitInfo {
+    return this.defaultLimiter.getInfo();
+  }
+
+  /**
+   * Get queue length across all limiters
+   */
+  public getQueueLength(): number {
+    return this.getLimiters().reduce((total, limiter) => total + limiter.getQueueLength(), 0);
+  }
+
+  /**
+   * Apply server-reported state to the default limiter; responses from a
+   * routed endpoint go to forPath's limiter, as ApiClient does
+   */
+  public updateFromServer(server: ServerRateLimit): void {
+    this.defaultLimiter.updateFromServer(server);
+  }
+
+  /**
+   * Pause the default limiter; a 429 from a routed endpoint pauses only
+   * forPath's limiter, so one endpoint's quota never holds the others
+   */
+  public pause(ms: number): void {
+    this.defaultLimiter.pause(ms);
+  }
+
+  /**
+   * Clear all limiters
+   */
+  public clear(): void {
+    this.getLimiters().forEach(limiter => limiter.clear());
+  }
+
+  private getLimiters(): IRateLimiter[] {
+    return [this.defaultLimiter, ...this.routes.map(r => r.limiter)];
+  }
+}
+
+/**
+ * Build a limiter for a config; name is 'default' or the endpoint pattern
+ */
+export type RateLimiterFactory = (config: RateLimitConfig, name: string) => IRateLimiter;
+
+/**
+ * Create rate limiter router from the default and per-endpoint configs
+ */
+export function createRateLimiterRouter(
+  defaultConfig: RateLimitConfig,
+  endpoints: EndpointRateLimit[] = [],
+  createLimiter: RateLimiterFactory = createRateLimiter
+): RateLimiterRouter {
+  return new RateLimiterRouter(
+    createLimiter(defaultConfig, 'default'),
+    endpoints.map(({ pattern, ...config }) => ({
+      pattern,
+      limiter: createLimiter(config, pattern),
+    }))
+  );
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * Retry budget shared across API requests
+ * - Every request deposits into a sliding window
+ * - A retry is only allowed while retries stay within a percentage of
+ *   requests in the window, plus a small floor for low traffic
+ * - Stops a degraded upstream from multiplying traffic by maxAttempts
+ */
+
+import { RetryBudgetConfig } from './types';
+import { logger } from '../utils/Logger';
+
+/**
+ * Retry Budget class
+ */
+export class RetryBudget {
+  private requests: number[] = [];
+  private retries: number[] = [];
+  private exhaustedCount = 0;
+
+  constructor(
+    private config: RetryBudgetConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Record a request sent for the first time
+   */
+  public recordRequest(): void {
+    this.requests.push(this.now());
+  }
+
+  /**
+   * Take a retry from the budget
+   * Returns false, without recording anything, when the budget is spent
+   */
+  public tryAcquireRetry(): boolean {
+    this.cleanOldEntries();
+
+    if (this.retries.length >= this.getAllowedRetries()) {
+      this.exhaustedCount++;
+      logger.warn('Retry budget exhausted', {
+        requests: this.requests.length,
+        retries: this.retries.length,
+        percent: this.config.percent,
+        windowMs: this.config.windowMs,
+      });
+      return false;
+    }
+
+    this.retries.push(this.now());
+    return true;
+  }
+
+  /**
+   * Get retries still available in the current window
+   */
+  public getRemaining(): number {
+    this.cleanOldEntries();
+    return Math.max(0, this.getAllowedRetries() - this.retries.length);
+  }
+
+  /**
+   * Get number of retries refused since creation
+   */
+  public getExhaustedCount(): number {
+    return this.exhaustedCount;
+  }
+
+  /**
+   * Retries allowed for the requests in the window
+   */
+  private getAllowedRetries(): number {
+    return (
+      this.config.minRetries +
+      Math.floor((this.requests.length * this.config.percent) / 100)
+    );
+  }
+
+  /**
+   * Drop entries outside the window
+   */
+  private cleanOldEntries(): void {
+    const cutoff = this.now() - this.config.windowMs;
+
+    this.requests = this.requests.filter(timestamp => timestamp > cutoff);
+    this.retries = this.retries.filter(timestamp => timestamp > cutoff);
+  }
+}
+
+/**
+ * Create retry budget instance
+ */
+export function createRetryBudget(config: RetryBudgetConfig): RetryBudget {
+  return new RetryBudget(config);
+}
\ No newline at end of file
@@ -2,6 +2,13 @@
  * API module type definitions
  */
 
+import {
+  RateLimitAlgorithm,
+  RetryAttempt,
+  RetryOperation,
+  RetryPolicy,
+} from '../types';
+
 /**
  * HTTP method types
  */
@@ -15,7 +22,17 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   body?: unknown;
   timeout?: number;
+  /** false disables retries, e.g. for non-idempotent requests */
   retryable?: boolean;
+  /** Sent as Idempotency-Key, unchanged across retries of the request */
+  idempotencyKey?: string;
+  /** Operation class whose retry policy applies */
+  operation?: RetryOperation;
+  /** Per-request override of the retry policy */
+  retry?: Partial<RetryPolicy>;
+  onRetry?: (attempt: RetryAttempt) => void;
+  /** Cancels the request, including queued waits and retry backoff */
+  signal?: AbortSignal;
 }
 
 /**
@@ -33,6 +50,53 @@ export interface ApiResponse<T> {
 export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
+  /** Defaults to sliding_window */
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * Rate limiter interface
+ */
+export interface IRateLimiter {
+  /** A queued request is dropped and rejected if the signal aborts */
+  execute<T>(fn: () => Promise<T>, priority?: number, signal?: AbortSignal): Promise<T>;
+  /** Get the limiter governing a request path */
+  forPath(path: string): IRateLimiter;
+  canMakeRequest(): boolean;
+  getInfo(): RateLimitInfo;
+  getQueueLength(): number;
+  updateFromServer(server: ServerRateLimit): void;
+  pause(ms: number): void;
+  clear(): void;
+}
+
+/**
+ * Rate limit state reported by the server in response headers
+ */
+export interface ServerRateLimit {
+  /** Requests left before the server starts returning 429 */
+  remaining: number;
+  /** Epoch milliseconds at which the server's quota refills */
+  resetAt: number;
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/**
+ * Retry budget configuration
+ */
+export interface RetryBudgetConfig {
+  /** Retries allowed per 100 requests in the window */
+  percent: number;
+  windowMs: number;
+  /** Retries always allowed per window, so low traffic can still retry */
+  minRetries: number;
 }
 
 /**
@@ -5,17 +5,33 @@
  * - Concurrent request handling during token refresh
  */
 
-import { Token, AuthResponse } from '../types';
+import { Token, AuthResponse, RetryPolicy } from '../types';
 import { AuthCredentials, ITokenManager, TokenRefreshState } from './types';
 import { AuthError } from '../utils/ErrorHandler';
 import { logger } from '../utils/Logger';
 import { withRetry } from '../utils/RetryStrategy';
+import { abortable, createTimeoutSignal } from '../utils/helpers';
 
 /**
  * Token refresh buffer - refresh token 5 minutes before expiry
  */
 const TOKEN_REFRESH_BUFFER_SECONDS = 300; // 5 minutes
 
+/**
+ * Default retry policy for token acquisition
+ */
+const DEFAULT_AUTH_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  jitter: 250,
+  maxDelay: 5000,
+};
+
+/**
+ * Default timeout of a single authentication request
+ */
+const DEFAULT_AUTH_TIMEOUT_MS = 10000;
+
 /**
  * Token Manager class
  */
@@ -29,35 +45,39 @@ export class TokenManager implements ITokenManager {
   constructor(
     private credentials: AuthCredentials,
     private authEndpoint: string,
-    private fetchFn: (url: string, options?: RequestInit) => Promise<Response> = fetch
+    private fetchFn: (url: string, options?: RequestInit) => Promise<Response> = fetch,
+    private retryPolicy: RetryPolicy = DEFAULT_AUTH_RETRY_POLICY,
+    private requestTimeout = DEFAULT_AUTH_TIMEOUT_MS
   ) {}
 
   /**
    * Get current token (refresh if needed)
+   * An aborted signal stops this caller waiting; the acquisition itself
+   * carries on, since other requests may share it
    */
-  public async getToken(): Promise<Token> {
+  public async getToken(signal?: AbortSignal): Promise<Token> {
     // If we're currently refreshing, wait for that to complete
     if (this.refreshState.isRefreshing && this.refreshState.promise) {
       logger.debug('Waiting for ongoing token refresh');
-      return this.refreshState.promise;
+      return abortable(this.refreshState.promise, signal);
     }
 
     // If no token, acquire one
     if (!this.token) {
       logger.info('No token present, acquiring new token');
-      return this.acquireToken();
+      return abortable(this.acquireToken(), signal);
     }
 
     // If token is expired, refresh it
     if (this.isTokenExpired()) {
       logger.warn('Token expired, refreshing');
-      return this.refreshToken();
+      return abortable(this.refreshToken(), signal);
     }
 
     // If token needs refresh soon, refresh proactively
     if (this.needsRefresh()) {
       logger.info('Token expiring soon, proactive refresh');
-      return this.refreshToken();
+      return abortable(this.refreshToken(), signal);
     }
 
     // Token is valid
@@ -152,10 +172,7 @@ export class TokenManager implements ITokenManager {
       const token = await withRetry(
         () => this.authenticateWithApi(),
         {
-          maxAttempts: 3,
-          baseDelay: 1000,
-          jitter: 250,
-          maxDelay: 5000,
+          ...this.retryPolicy,
           retryableErrors: [],
         },
         { operation: 'token_acquisition' }
@@ -188,14 +205,24 @@ export class TokenManager implements ITokenManager {
       this.credentials.password
     );
 
+    // Abort a hung authentication request rather than waiting forever
+    const timeout = createTimeoutSignal(
+      this.requestTimeout,
+      () => new AuthError(`Authentication request timed out after ${this.requestTimeout}ms`)
+    );
+
     try {
-      const response = await this.fetchFn(this.authEndpoint, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${authHeader}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const response = await abortable(
+        this.fetchFn(this.authEndpoint, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${authHeader}`,
+            'Content-Type': 'application/json',
+          },
+          signal: timeout.signal,
+        }),
+        timeout.signal
+      );
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -224,6 +251,8 @@ export class TokenManager implements ITokenManager {
         `Network error during authentication: ${(error as Error).message}`,
         error as Error
       );
+    } finally {
+      timeout.clear();
     }
   }
 
@@ -256,7 +285,9 @@ export class TokenManager implements ITokenManager {
 export function createTokenManager(
   credentials: AuthCredentials,
   authEndpoint: string,
-  fetchFn?: (url: string, options?: RequestInit) => Promise<Response>
+  fetchFn?: (url: string, options?: RequestInit) => Promise<Response>,
+  retryPolicy?: RetryPolicy,
+  requestTimeout?: number
 ): TokenManager {
-  return new TokenManager(credentials, authEndpoint, fetchFn);
+  return new TokenManager(credentials, authEndpoint, fetchFn, retryPolicy, requestTimeout);
 }
\ No newline at end of file
@@ -16,7 +16,8 @@ export interface AuthCredentials {
  * Token manager interface
  */
 export interface ITokenManager {
-  getToken(): Promise<Token>;
+  /** The signal only stops this caller waiting; a shared refresh carries on */
+  getToken(signal?: AbortSignal): Promise<Token>;
   refreshToken(): Promise<Token>;
   isTokenValid(): boolean;
   needsRefresh(): boolean;
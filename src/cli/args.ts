@@ -0,0 +1,128 @@
+/**
+ * Command-line argument parsing
+ */
+
+import { parseArgs } from 'util';
+import { CAMPAIGN_STATUSES, Campaign } from '../types';
+import { CliOptions, ParsedArgs } from './types';
+import { ValidationError } from '../utils/ErrorHandler';
+
+/**
+ * Usage text
+ */
+export const USAGE = `
+Usage: mixoads <command> [options]
+
+Commands:
+  sync                          Sync all campaigns
+  sync --campaign <id>          Sync specific campaigns (repeatable)
+  sync --status <status>        Sync campaigns with status (active, paused, completed)
+  sync --resume [runId]         Resume an interrupted run (default: most recent)
+  report last                   Show the most recent sync run
+  report list                   List recent sync runs
+  report <runId>                Show a specific sync run
+  dlq list                      List dead-lettered campaigns
+  dlq replay [campaignId...]    Re-sync dead-lettered campaigns (default: all)
+  db migrate [up|down|status]   Manage schema migrations
+  config print                  Print configuration (secrets masked)
+  health                        Check database, schema and API connectivity
+
+Options:
+  --dry-run                     Show the sync plan without writing anything
+  --json                        Print machine-readable JSON output
+  --steps <n>                   Number of migrations to roll back (db migrate down)
+  --limit <n>                   Number of entries to list (report list, dlq list)
+  -h, --help                    Show this help
+
+Exit codes:
+  0 success, 1 some campaigns failed, 2 fatal error,
+  3 configuration error, 4 unhealthy, 5 interrupted (resumable), 64 usage error
+`.trim();
+
+/**
+ * Parse a positive integer option
+ */
+function parsePositiveInt(value: string | undefined, name: string, defaultValue: number): number {
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new ValidationError(`--${name} must be a positive integer: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse --status values (repeatable and/or comma separated)
+ */
+function parseStatuses(values: string[]): Array<Campaign['status']> {
+  const statuses = values
+    .flatMap(value => value.split(','))
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value.length > 0);
+
+  for (const status of statuses) {
+    if (!CAMPAIGN_STATUSES.includes(status as Campaign['status'])) {
+      throw new ValidationError(
+        `Invalid status: ${status}. Must be one of: ${CAMPAIGN_STATUSES.join(', ')}`
+      );
+    }
+  }
+
+  return statuses as Array<Campaign['status']>;
+}
+
+/**
+ * Parse command-line arguments
+ */
+export function parseCliArgs(argv: string[]): ParsedArgs {
+  let parsed: ReturnType<typeof parseArgs>;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        campaign: { type: 'string', multiple: true },
+        status: { type: 'string', multiple: true },
+        'dry-run': { type: 'boolean', default: false },
+        resume: { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        steps: { type: 'string' },
+        limit: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+
+  const values = parsed.values as {
+    campaign?: string[];
+    status?: string[];
+    'dry-run': boolean;
+    resume: boolean;
+    json: boolean;
+    steps?: string;
+    limit?: string;
+    help: boolean;
+  };
+
+  const options: CliOptions = {
+    campaigns: values.campaign ?? [],
+    statuses: parseStatuses(values.status ?? []),
+    dryRun: values['dry-run'],
+    resume: values.resume,
+    json: values.json,
+    help: values.help,
+    steps: parsePositiveInt(values.steps, 'steps', 1),
+    limit: parsePositiveInt(values.limit, 'limit', 10),
+  };
+
+  const [command, ...args] = parsed.positionals;
+
+  return { command, args, options };
+}
\ No newline at end of file
@@ -0,0 +1,488 @@
+/**
+ * CLI command handlers
+ * Each handler prints its output and returns the process exit code
+ */
+
+import { Campaign, CampaignFilter, Config, SyncReport } from '../types';
+import { AppContext } from './context';
+import { CliOptions, ExitCode } from './types';
+import { SyncOrchestrator } from '../sync/SyncOrchestrator';
+import { SyncOrchestratorDependencies } from '../sync/types';
+import { formatSyncPlan } from '../sync/SyncPlan';
+import { SyncRunSummary } from '../database/types';
+import { maskConfig, printConfig } from '../config';
+import { ApiError, ValidationError } from '../utils/ErrorHandler';
+import { formatDuration } from '../utils/helpers';
+import { logger } from '../utils/Logger';
+import { shutdown } from '../utils/Shutdown';
+
+/**
+ * Print data as JSON or via the text renderer
+ */
+function output(options: CliOptions, data: unknown, renderText: () => void): void {
+  if (options.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    renderText();
+  }
+}
+
+/**
+ * Convert a sync report into plain JSON-safe data
+ */
+export function serializeReport(report: SyncReport): Record<string, unknown> {
+  return {
+    ...report,
+    results: report.results.map(result => ({
+      ...result,
+      error: result.error
+        ? {
+            name: result.error.name,
+            code: 'code' in result.error ? result.error.code : undefined,
+            message: result.error.message,
+          }
+        : undefined,
+    })),
+  };
+}
+
+/**
+ * Build the run's filter from config, with --campaign and --status taking precedence
+ */
+function createFilter(ctx: AppContext, options: CliOptions): CampaignFilter {
+  const filter: CampaignFilter = { ...ctx.config.sync.filter };
+
+  if (options.campaigns.length > 0) {
+    filter.includeIds = options.campaigns;
+  }
+  if (options.statuses.length > 0) {
+    filter.statuses = options.statuses;
+  }
+
+  return filter;
+}
+
+/**
+ * Fetch explicitly requested campaigns individually instead of listing all
+ */
+function createFetchFn(
+  ctx: AppContext,
+  options: CliOptions
+): Partial<SyncOrchestratorDependencies> {
+  if (options.campaigns.length === 0) {
+    return {};
+  }
+
+  return {
+    fetchAllCampaignsFn: (signal?: AbortSignal): Promise<Campaign[]> =>
+      Promise.all(options.campaigns.map(id => ctx.campaignService.getCampaign(id, signal))),
+    streamCampaignsFn: undefined,
+  };
+}
+
+/**
+ * Print the outcome of a sync run and map it to the exit code
+ */
+export function printSyncReport(options: CliOptions, report: SyncReport): ExitCode {
+  output(options, serializeReport(report), () => {
+    console.log(
+      `Synced ${report.completedCount + report.successCount}/${report.totalCampaigns} campaigns in ${formatDuration(report.duration)}`
+    );
+    if (report.deletions?.aborted) {
+      console.log(
+        `Deletion threshold exceeded: ${report.deletions.missingIds.length} campaigns missing upstream were not removed`
+      );
+    }
+  });
+
+  if (report.interrupted) {
+    return ExitCode.INTERRUPTED;
+  }
+
+  const failed = report.failureCount > 0 || report.deletions?.aborted === true;
+  return failed ? ExitCode.SYNC_FAILURES : ExitCode.SUCCESS;
+}
+
+/**
+ * Run a sync, stopping it gracefully on process shutdown
+ */
+async function runStoppable(
+  orchestrator: SyncOrchestrator,
+  run: (orchestrator: SyncOrchestrator) => Promise<SyncReport>
+): Promise<SyncReport> {
+  const unregister = shutdown.register(() => orchestrator.stop());
+
+  try {
+    return await run(orchestrator);
+  } finally {
+    unregister();
+  }
+}
+
+/**
+ * sync --resume [runId]
+ */
+async function resumeCommand(
+  ctx: AppContext,
+  args: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  if (options.dryRun || options.campaigns.length > 0 || options.statuses.length > 0) {
+    throw new ValidationError('--resume cannot be combined with --dry-run, --campaign or --status');
+  }
+
+  await ctx.migrationRunner.up();
+
+  const run = await ctx.syncRunRepository.getResumableRun(args[0]);
+
+  if (!run) {
+    console.error(args[0] ? `No unfinished sync run: ${args[0]}` : 'No unfinished sync run to resume');
+    return args[0] ? ExitCode.FATAL : ExitCode.SUCCESS;
+  }
+
+  const report = await runStoppable(ctx.createOrchestrator(), o => o.resumeSync(run));
+
+  return printSyncReport(options, report);
+}
+
+/**
+ * sync [--campaign <id>] [--status <status>] [--dry-run] [--resume [runId]]
+ */
+export async function syncCommand(
+  ctx: AppContext,
+  args: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  if (options.resume) {
+    return resumeCommand(ctx, args, options);
+  }
+
+  const overrides: Partial<SyncOrchestratorDependencies> = {
+    ...createFetchFn(ctx, options),
+    filter: createFilter(ctx, options),
+  };
+
+  // Explicitly requested campaigns are synced even if unchanged
+  if (options.campaigns.length > 0) {
+    overrides.mode = 'full';
+  }
+
+  if (options.dryRun) {
+    const plan = await ctx.createOrchestrator(overrides).planSync();
+    console.log(formatSyncPlan(plan, options.json ? 'json' : 'text'));
+    return ExitCode.SUCCESS;
+  }
+
+  await ctx.migrationRunner.up();
+
+  const report = await runStoppable(ctx.createOrchestrator(overrides), o => o.executeSync());
+
+  return printSyncReport(options, report);
+}
+
+/**
+ * Describe how a sync run ended
+ */
+function describeRunOutcome(run: SyncRunSummary): string {
+  if (run.status === 'failed') {
+    return 'failed';
+  }
+  if (run.status === 'running' || run.durationMs === null) {
+    return 'unfinished';
+  }
+
+  return `${run.successCount}/${run.totalCampaigns} ok, ${run.failureCount} failed, ` +
+    `${run.retryCount} retries, ${formatDuration(run.durationMs)}`;
+}
+
+/**
+ * Print a sync run summary line
+ */
+function printRunLine(run: SyncRunSummary): void {
+  const outcome = describeRunOutcome(run);
+
+  console.log(
+    `${run.runId}  ${run.startedAt.toISOString()}  ${run.mode.padEnd(11)} ${outcome}`
+  );
+}
+
+/**
+ * report last | report list | report <runId>
+ */
+export async function reportCommand(
+  ctx: AppContext,
+  args: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  const target = args[0] ?? 'last';
+
+  if (target === 'list') {
+    const runs = await ctx.syncRunRepository.listRecentRuns(options.limit);
+    output(options, runs, () => {
+      if (runs.length === 0) {
+        console.log('No sync runs recorded');
+      }
+      runs.forEach(printRunLine);
+    });
+    return ExitCode.SUCCESS;
+  }
+
+  const run = target === 'last'
+    ? (await ctx.syncRunRepository.listRecentRuns(1))[0] ?? null
+    : await ctx.syncRunRepository.getRun(target);
+
+  if (!run) {
+    console.error(target === 'last' ? 'No sync runs recorded' : `Sync run not found: ${target}`);
+    return target === 'last' ? ExitCode.SUCCESS : ExitCode.FATAL;
+  }
+
+  const failures = await ctx.syncRunRepository.getRunFailures(run.runId);
+
+  output(options, { ...run, failures }, () => {
+    printRunLine(run);
+    if (failures.length > 0) {
+      console.log('');
+      console.log('Failed campaigns:');
+      failures.forEach(f => {
+        console.log(`  ${f.campaignId}: [${f.errorCode ?? 'UNKNOWN'}] ${f.errorMessage ?? ''}`);
+        if (f.retries > 0) {
+          console.log(
+            `    ${f.retries} retries (${f.attemptErrorCodes.join(', ')}), ` +
+            `${formatDuration(f.backoffMs)} backoff`
+          );
+        }
+      });
+    }
+  });
+
+  return ExitCode.SUCCESS;
+}
+
+/**
+ * Re-fetch dead-lettered campaigns by ID, so a replay never overwrites newer
+ * data with the payload stored at failure time. Dead letters of campaigns no
+ * longer upstream are dropped, unless this is a dry run
+ */
+function refetchDeadLettered(
+  ctx: AppContext,
+  campaignIds: string[],
+  options: CliOptions
+): (signal?: AbortSignal) => Promise<Campaign[]> {
+  return async (signal) => {
+    const fetched = await Promise.all(
+      campaignIds.map(id =>
+        ctx.campaignService.getCampaign(id, signal).catch(error => {
+          if (error instanceof ApiError && error.statusCode === 404) {
+            return null;
+          }
+          throw error;
+        })
+      )
+    );
+
+    const gone = campaignIds.filter((_id, i) => fetched[i] === null);
+    if (gone.length > 0 && !options.dryRun) {
+      await ctx.deadLetterRepository.removeDeadLetters(gone);
+      logger.warn('Dropped dead letters of campaigns no longer upstream', { campaignIds: gone });
+    }
+
+    return fetched.filter((campaign): campaign is Campaign => campaign !== null);
+  };
+}
+
+/**
+ * Sync dead-lettered campaigns from their current upstream data, without
+ * listing upstream: successes clear their dead letters, repeat failures are
+ * dead-lettered again. The ID filter keeps the replay a subset run, so it
+ * neither reconciles deletions nor advances the checkpoint
+ */
+async function replayCommand(
+  ctx: AppContext,
+  campaignIds: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  const orchestrator = ctx.createOrchestrator({
+    fetchAllCampaignsFn: refetchDeadLettered(ctx, campaignIds, options),
+    streamCampaignsFn: undefined,
+    filter: { includeIds: campaignIds },
+    mode: 'full',
+  });
+
+  if (options.dryRun) {
+    const plan = await orchestrator.planSync();
+    console.log(formatSyncPlan(plan, options.json ? 'json' : 'text'));
+    return ExitCode.SUCCESS;
+  }
+
+  await ctx.migrationRunner.up();
+
+  const report = await runStoppable(orchestrator, o => o.executeSync());
+
+  return printSyncReport(options, report);
+}
+
+/**
+ * dlq list | dlq replay [campaignId...]
+ */
+export async function dlqCommand(
+  ctx: AppContext,
+  args: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  const [subcommand, ...campaignIds] = args;
+
+  switch (subcommand) {
+    case 'list': {
+      const letters = await ctx.deadLetterRepository.listDeadLetters(options.limit);
+      output(options, letters, () => {
+        if (letters.length === 0) {
+          console.log('No dead-lettered campaigns');
+        }
+        letters.forEach(letter => {
+          console.log(
+            `${letter.campaignId}  ${letter.lastFailedAt.toISOString()}  ` +
+            `${letter.failureCount}x  [${letter.errorCode ?? 'UNKNOWN'}] ${letter.errorMessage ?? ''}`
+          );
+        });
+      });
+      return ExitCode.SUCCESS;
+    }
+    case 'replay': {
+      const letters = await ctx.deadLetterRepository.listDeadLetters();
+      const deadLettered = new Set(letters.map(letter => letter.campaignId));
+      const unknown = campaignIds.filter(id => !deadLettered.has(id));
+
+      if (unknown.length > 0) {
+        throw new ValidationError(`Not dead-lettered: ${unknown.join(', ')}`);
+      }
+
+      const replayed = campaignIds.length > 0
+        ? letters.filter(letter => campaignIds.includes(letter.campaignId))
+        : letters;
+
+      if (replayed.length === 0) {
+        console.log('No dead-lettered campaigns to replay');
+        return ExitCode.SUCCESS;
+      }
+
+      return replayCommand(ctx, replayed.map(letter => letter.campaignId), options);
+    }
+    default:
+      throw new ValidationError(`Unknown dlq command: ${subcommand ?? '(none)'}`);
+  }
+}
+
+/**
+ * db migrate [up|down|status]
+ */
+export async function dbCommand(
+  ctx: AppContext,
+  args: string[],
+  options: CliOptions
+): Promise<ExitCode> {
+  const [subcommand, action = 'up'] = args;
+
+  if (subcommand !== 'migrate') {
+    throw new ValidationError(`Unknown db command: ${subcommand ?? '(none)'}`);
+  }
+
+  switch (action) {
+    case 'up': {
+      const applied = await ctx.migrationRunner.up();
+      output(options, { applied: applied.map(m => m.version) }, () => {
+        console.log(`Applied ${applied.length} migration(s)`);
+      });
+      return ExitCode.SUCCESS;
+    }
+    case 'down': {
+      const rolledBack = await ctx.migrationRunner.down(options.steps);
+      output(options, { rolledBack: rolledBack.map(m => m.version) }, () => {
+        console.log(`Rolled back ${rolledBack.length} migration(s)`);
+      });
+      return ExitCode.SUCCESS;
+    }
+    case 'status': {
+      const statuses = await ctx.migrationRunner.status();
+      output(options, statuses, () => {
+        statuses.forEach(status => {
+          const appliedAt = status.appliedAt ? status.appliedAt.toISOString() : '-';
+          console.log(
+            `${String(status.version).padStart(4, '0')}_${status.name.padEnd(30)} ${status.state.padEnd(8)} ${appliedAt}`
+          );
+        });
+      });
+      return ExitCode.SUCCESS;
+    }
+    default:
+      throw new ValidationError(
+        `Unknown migrate action: ${action}. Must be one of: up, down, status`
+      );
+  }
+}
+
+/**
+ * config print
+ */
+export function configCommand(
+  config: Config,
+  args: string[],
+  options: CliOptions
+): ExitCode {
+  if (args[0] !== 'print') {
+    throw new ValidationError(`Unknown config command: ${args[0] ?? '(none)'}`);
+  }
+
+  output(options, maskConfig(config), () => printConfig(config));
+
+  return ExitCode.SUCCESS;
+}
+
+/**
+ * health
+ */
+export async function healthCommand(
+  ctx: AppContext,
+  options: CliOptions
+): Promise<ExitCode> {
+  const checks: Array<{ name: string; healthy: boolean; detail: string }> = [];
+
+  const connected = await ctx.pool.isConnected();
+  checks.push({
+    name: 'database',
+    healthy: connected,
+    detail: connected ? 'connected' : 'connection failed',
+  });
+
+  if (connected) {
+    try {
+      const statuses = await ctx.migrationRunner.status();
+      const outstanding = statuses.filter(s => s.state !== 'applied');
+      checks.push({
+        name: 'schema',
+        healthy: outstanding.length === 0,
+        detail: outstanding.length === 0
+          ? 'up to date'
+          : `${outstanding.length} migration(s) pending or modified`,
+      });
+    } catch (error) {
+      checks.push({ name: 'schema', healthy: false, detail: (error as Error).message });
+    }
+  }
+
+  try {
+    await ctx.tokenManager.getToken();
+    checks.push({ name: 'api', healthy: true, detail: 'authenticated' });
+  } catch (error) {
+    checks.push({ name: 'api', healthy: false, detail: (error as Error).message });
+  }
+
+  const healthy = checks.every(check => check.healthy);
+
+  output(options, { healthy, checks }, () => {
+    checks.forEach(check => {
+      console.log(`${check.healthy ? '✓' : '✗'} ${check.name.padEnd(9)} ${check.detail}`);
+    });
+  });
+
+  return healthy ? ExitCode.SUCCESS : ExitCode.UNHEALTHY;
+}
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Application context - wires configuration into services and repositories
+ */
+
+import { Config } from '../types';
+import { TokenManager, createTokenManager } from '../auth/TokenManager';
+import { createRateLimiter } from '../api/RateLimiter';
+import { createRateLimiterRouter } from '../api/RateLimiterRouter';
+import { createDistributedRateLimiter } from '../api/DistributedRateLimiter';
+import { CircuitBreaker, createCircuitBreaker } from '../api/CircuitBreaker';
+import { createRetryBudget } from '../api/RetryBudget';
+import { ApiClient, createApiClient } from '../api/ApiClient';
+import { CampaignService, createCampaignService } from '../api/CampaignService';
+import { ConnectionPool, createConnectionPool } from '../database/ConnectionPool';
+import { MigrationRunner, createMigrationRunner } from '../database/migrations';
+import {
+  CampaignRepository,
+  createCampaignRepository,
+} from '../database/CampaignRepository';
+import {
+  MetricsRepository,
+  createMetricsRepository,
+} from '../database/MetricsRepository';
+import {
+  SyncRunRepository,
+  createSyncRunRepository,
+} from '../database/SyncRunRepository';
+import {
+  DeadLetterRepository,
+  createDeadLetterRepository,
+} from '../database/DeadLetterRepository';
+import {
+  RateLimitRepository,
+  createRateLimitRepository,
+} from '../database/RateLimitRepository';
+import {
+  SyncStateRepository,
+  createSyncStateRepository,
+  CAMPAIGN_SYNC_CHECKPOINT,
+} from '../database/SyncStateRepository';
+import { SyncOrchestrator, createSyncOrchestrator } from '../sync/SyncOrchestrator';
+import { SyncOrchestratorDependencies } from '../sync/types';
+import { getPriorityPolicy } from '../sync/CampaignPriority';
+import { logger } from '../utils/Logger';
+import { resolveRetryPolicy } from '../utils/RetryStrategy';
+
+/**
+ * Path of the authentication endpoint
+ */
+const AUTH_PATH = '/api/auth/login';
+
+/**
+ * Application context
+ */
+export interface AppContext {
+  config: Config;
+  tokenManager: TokenManager;
+  apiClient: ApiClient;
+  circuitBreaker: CircuitBreaker;
+  campaignService: CampaignService;
+  pool: ConnectionPool;
+  migrationRunner: MigrationRunner;
+  campaignRepository: CampaignRepository;
+  metricsRepository: MetricsRepository;
+  syncRunRepository: SyncRunRepository;
+  syncStateRepository: SyncStateRepository;
+  deadLetterRepository: DeadLetterRepository;
+  rateLimitRepository: RateLimitRepository;
+  createOrchestrator(
+    overrides?: Partial<SyncOrchestratorDependencies>
+  ): SyncOrchestrator;
+  close(): Promise<void>;
+}
+
+/**
+ * Create application context from configuration
+ * No connections are opened until a service is first used
+ */
+export function createAppContext(config: Config): AppContext {
+  const pool = createConnectionPool(config.database);
+  const rateLimitRepository = createRateLimitRepository(pool);
+
+  const rateLimiter = createRateLimiterRouter(
+    {
+      maxRequests: config.rateLimit.maxRequests,
+      windowMs: config.rateLimit.windowMs,
+      algorithm: config.rateLimit.algorithm,
+    },
+    config.rateLimit.endpoints,
+    config.rateLimit.backend === 'postgres'
+      ? (limitConfig, name) => createDistributedRateLimiter(
+        `${config.rateLimit.key}:${name}`,
+        limitConfig,
+        (key, maxRequests, windowMs) => rateLimitRepository.acquireSlot(key, maxRequests, windowMs)
+      )
+      : createRateLimiter
+  );
+
+  // Authentication counts against the quota of the auth endpoint like any request
+  const authLimiter = rateLimiter.forPath(AUTH_PATH);
+  const tokenManager = createTokenManager(
+    {
+      email: config.api.email,
+      password: config.api.password,
+    },
+    `${config.api.baseUrl}${AUTH_PATH}`,
+    (url, init) => authLimiter.execute(() => fetch(url, init), 0, init?.signal ?? undefined),
+    resolveRetryPolicy(config.retry, 'auth'),
+    config.api.fetchTimeout
+  );
+
+  const circuitBreaker = createCircuitBreaker({
+    failureThreshold: config.circuitBreaker.failureThreshold,
+    resetTimeoutMs: config.circuitBreaker.resetTimeout,
+  });
+
+  const retryBudget = createRetryBudget(config.retryBudget);
+
+  const apiClient = createApiClient(
+    config.api.baseUrl,
+    tokenManager,
+    rateLimiter,
+    config.api.fetchTimeout,
+    circuitBreaker,
+    config.retry,
+    retryBudget
+  );
+
+  const campaignService = createCampaignService(
+    apiClient,
+    config.api.fetchTimeout,
+    config.api.syncTimeout,
+    config.sync.fetchConcurrency,
+    config.sync.pageRetries,
+    resolveRetryPolicy(config.retry, 'fetchPage')
+  );
+
+  const metricsRepository = createMetricsRepository(pool);
+  const campaignRepository = createCampaignRepository(pool, metricsRepository);
+  const syncRunRepository = createSyncRunRepository(pool);
+  const syncStateRepository = createSyncStateRepository(pool);
+  const deadLetterRepository = createDeadLetterRepository(pool);
+
+  return {
+    config,
+    tokenManager,
+    apiClient,
+    circuitBreaker,
+    campaignService,
+    pool,
+    migrationRunner: createMigrationRunner(pool),
+    campaignRepository,
+    metricsRepository,
+    syncRunRepository,
+    syncStateRepository,
+    deadLetterRepository,
+    rateLimitRepository,
+
+    createOrchestrator(overrides = {}) {
+      return createSyncOrchestrator({
+        fetchAllCampaignsFn: (signal) =>
+          campaignService.fetchAllCampaigns(config.sync.pageSize, signal),
+        streamCampaignsFn: (signal) =>
+          campaignService.streamCampaignPages(config.sync.pageSize, signal),
+        syncCampaignFn: async (id, onRetry, signal) => {
+          await campaignService.syncCampaign(id, onRetry, signal);
+        },
+        saveCampaignFn: (campaign) => campaignRepository.saveCampaign(campaign),
+        maxConcurrent: config.sync.maxConcurrent,
+        shutdownTimeoutMs: config.sync.shutdownTimeout,
+        requeueAttempts: config.sync.requeueAttempts,
+        requeueDelayMs: config.sync.requeueDelay,
+        filter: config.sync.filter,
+        priorityPolicy: getPriorityPolicy(config.sync.priority),
+        getSyncTimesFn: () => campaignRepository.getSyncTimes(),
+        mode: config.sync.mode,
+        getContentHashesFn: () => campaignRepository.getContentHashes(),
+        getCheckpointFn: () => syncStateRepository.getCheckpoint(CAMPAIGN_SYNC_CHECKPOINT),
+        saveCheckpointFn: (checkpoint) =>
+          syncStateRepository.saveCheckpoint(CAMPAIGN_SYNC_CHECKPOINT, checkpoint),
+        saveReportFn: (report) => syncRunRepository.saveRun(report),
+        getStoredCampaignsFn: () => campaignRepository.getAllCampaigns(),
+        deletionPolicy: config.sync.deletionPolicy,
+        maxDeletionPercent: config.sync.maxDeletionPercent,
+        getActiveCampaignIdsFn: () => campaignRepository.getActiveCampaignIds(),
+        markDeletedFn: (ids) => campaignRepository.markDeleted(ids),
+        deleteCampaignFn: (id) => campaignRepository.deleteCampaign(id),
+        startRunFn: (runId, mode, startedAt) =>
+          syncRunRepository.startRun(runId, mode, startedAt),
+        addRunCampaignsFn: (runId, campaigns) =>
+          syncRunRepository.addRunCampaigns(runId, campaigns),
+        markListingCompleteFn: (runId) => syncRunRepository.markListingComplete(runId),
+        markCampaignFn: (runId, campaignId, state) =>
+          syncRunRepository.markCampaign(runId, campaignId, state),
+        failRunFn: (runId) => syncRunRepository.failRun(runId),
+        deadLetterFn: (runId, failures) =>
+          deadLetterRepository.addDeadLetters(runId, failures),
+        clearDeadLettersFn: (ids) => deadLetterRepository.removeDeadLetters(ids),
+        getCircuitTransitionsFn: (since) => circuitBreaker.getTransitions(since),
+        ...overrides,
+      });
+    },
+
+    async close() {
+      try {
+        await pool.close();
+      } catch (error) {
+        logger.error('Error closing database connection', error as Error);
+      }
+    },
+  };
+}
\ No newline at end of file
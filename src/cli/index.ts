@@ -0,0 +1,104 @@
+/**
+ * Command-line interface dispatcher
+ */
+
+import { loadConfig, validateConfig } from '../config';
+import { LogLevel } from '../types';
+import { AppContext, createAppContext } from './context';
+import { parseCliArgs, USAGE } from './args';
+import { ExitCode } from './types';
+import {
+  configCommand,
+  dbCommand,
+  dlqCommand,
+  healthCommand,
+  reportCommand,
+  syncCommand,
+} from './commands';
+import { ConfigError, ValidationError } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Log levels ordered by verbosity
+ */
+const LOG_LEVELS = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+/**
+ * Supported top-level commands
+ */
+const COMMANDS = ['sync', 'report', 'dlq', 'db', 'config', 'health'];
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[]): Promise<ExitCode> {
+  let ctx: AppContext | null = null;
+
+  try {
+    const { command, args, options } = parseCliArgs(argv);
+
+    if (options.help || !command) {
+      console.log(USAGE);
+      return command || options.help ? ExitCode.SUCCESS : ExitCode.USAGE;
+    }
+
+    if (!COMMANDS.includes(command)) {
+      throw new ValidationError(`Unknown command: ${command}`);
+    }
+
+    const config = loadConfig();
+    validateConfig(config);
+
+    // Keep stdout clean for JSON output: INFO/DEBUG logs are written to stdout
+    const level = options.json
+      ? LOG_LEVELS[Math.max(LOG_LEVELS.indexOf(config.logging.level as LogLevel), 2)]
+      : config.logging.level as LogLevel;
+    logger.configure({ level, format: config.logging.format });
+
+    if (command === 'config') {
+      return configCommand(config, args, options);
+    }
+
+    ctx = createAppContext(config);
+
+    switch (command) {
+      case 'sync':
+        return await syncCommand(ctx, args, options);
+      case 'report':
+        return await reportCommand(ctx, args, options);
+      case 'dlq':
+        return await dlqCommand(ctx, args, options);
+      case 'db':
+        return await dbCommand(ctx, args, options);
+      case 'health':
+        return await healthCommand(ctx, options);
+      default:
+        throw new ValidationError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    return handleCliError(error);
+  } finally {
+    if (ctx) {
+      await ctx.close();
+    }
+  }
+}
+
+/**
+ * Report an error that ended a command and map it to the exit code
+ */
+export function handleCliError(error: unknown): ExitCode {
+  if (error instanceof ValidationError) {
+    console.error(`Error: ${error.message}`);
+    console.error('Run with --help for usage');
+    return ExitCode.USAGE;
+  }
+
+  if (error instanceof ConfigError) {
+    console.error(`Configuration error: ${error.message}`);
+    return ExitCode.CONFIG_ERROR;
+  }
+
+  logger.error('Fatal error', error as Error);
+  return ExitCode.FATAL;
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * CLI module type definitions
+ */
+
+import { Campaign } from '../types';
+
+/**
+ * Process exit codes per outcome
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  SYNC_FAILURES = 1,
+  FATAL = 2,
+  CONFIG_ERROR = 3,
+  UNHEALTHY = 4,
+  INTERRUPTED = 5,
+  USAGE = 64,
+}
+
+/**
+ * Parsed command-line options
+ */
+export interface CliOptions {
+  campaigns: string[];
+  statuses: Array<Campaign['status']>;
+  dryRun: boolean;
+  resume: boolean;
+  json: boolean;
+  help: boolean;
+  steps: number;
+  limit: number;
+}
+
+/**
+ * Parsed command line
+ */
+export interface ParsedArgs {
+  command: string | undefined;
+  args: string[];
+  options: CliOptions;
+}
\ No newline at end of file
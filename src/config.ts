@@ -3,8 +3,25 @@
  */
 
 import * as dotenv from 'dotenv';
-import { Config, LogLevel } from './types';
+import {
+  CAMPAIGN_STATUSES,
+  Campaign,
+  CampaignFilter,
+  Config,
+  DeletionPolicy,
+  EndpointRateLimit,
+  LogLevel,
+  RateLimitAlgorithm,
+  RateLimitBackend,
+  RetryConfig,
+  RetryOperation,
+  RetryPolicy,
+  SYNC_PRIORITIES,
+  SyncMode,
+  SyncPriority,
+} from './types';
 import { ConfigError } from './utils/ErrorHandler';
+import { DEFAULT_SHUTDOWN_TIMEOUT_MS } from './utils/Shutdown';
 
 // Load environment variables
 dotenv.config();
@@ -49,6 +66,217 @@ function getLogLevel(value: string): LogLevel {
   throw new ConfigError(`Invalid log level: ${value}. Must be one of: DEBUG, INFO, WARN, ERROR`);
 }
 
+/**
+ * Get sync mode from environment variable
+ */
+function getSyncMode(value: string): SyncMode {
+  const lowerValue = value.toLowerCase();
+  if (lowerValue === 'full' || lowerValue === 'incremental') {
+    return lowerValue;
+  }
+  throw new ConfigError(`Invalid sync mode: ${value}. Must be one of: full, incremental`);
+}
+
+/**
+ * Get upstream deletion policy from environment variable
+ */
+function getDeletionPolicy(value: string): DeletionPolicy {
+  const lowerValue = value.toLowerCase();
+  if (lowerValue === 'mark' || lowerValue === 'delete' || lowerValue === 'ignore') {
+    return lowerValue;
+  }
+  throw new ConfigError(
+    `Invalid deletion policy: ${value}. Must be one of: mark, delete, ignore`
+  );
+}
+
+/**
+ * Get campaign prioritisation policy from environment variable
+ */
+function getSyncPriority(value: string): SyncPriority {
+  const lowerValue = value.toLowerCase();
+  if (SYNC_PRIORITIES.includes(lowerValue as SyncPriority)) {
+    return lowerValue as SyncPriority;
+  }
+  throw new ConfigError(
+    `Invalid sync priority: ${value}. Must be one of: ${SYNC_PRIORITIES.join(', ')}`
+  );
+}
+
+/**
+ * Get rate limiting algorithm from environment variable
+ */
+function getRateLimitAlgorithm(value: string): RateLimitAlgorithm {
+  const lowerValue = value.toLowerCase();
+  if (lowerValue === 'sliding_window' || lowerValue === 'token_bucket') {
+    return lowerValue;
+  }
+  throw new ConfigError(
+    `Invalid rate limit algorithm: ${value}. Must be one of: sliding_window, token_bucket`
+  );
+}
+
+/**
+ * Get rate limit backend from environment variable
+ */
+function getRateLimitBackend(value: string): RateLimitBackend {
+  const lowerValue = value.toLowerCase();
+  if (lowerValue === 'memory' || lowerValue === 'postgres') {
+    return lowerValue;
+  }
+  throw new ConfigError(
+    `Invalid rate limit backend: ${value}. Must be one of: memory, postgres`
+  );
+}
+
+/**
+ * Get per-endpoint rate limits from RATE_LIMIT_ENDPOINTS
+ * Format: pattern=maxRequests/windowMs[/algorithm], comma-separated,
+ * e.g. /api/campaigns=5/60000 (see .env.example)
+ */
+function getEndpointRateLimits(defaultAlgorithm: RateLimitAlgorithm): EndpointRateLimit[] {
+  return getEnvList('RATE_LIMIT_ENDPOINTS').map(entry => {
+    const [pattern, limit = ''] = entry.split('=');
+    const [maxRequests, windowMs, algorithm] = limit.split('/');
+    const parsedMax = parseInt(maxRequests, 10);
+    const parsedWindow = parseInt(windowMs, 10);
+
+    if (!pattern || isNaN(parsedMax) || isNaN(parsedWindow)) {
+      throw new ConfigError(
+        `Invalid RATE_LIMIT_ENDPOINTS entry: ${entry}. Expected pattern=maxRequests/windowMs[/algorithm]`
+      );
+    }
+
+    return {
+      pattern,
+      maxRequests: validatePositive(parsedMax, `RATE_LIMIT_ENDPOINTS ${pattern} maxRequests`),
+      windowMs: validatePositive(parsedWindow, `RATE_LIMIT_ENDPOINTS ${pattern} windowMs`),
+      algorithm: algorithm ? getRateLimitAlgorithm(algorithm) : defaultAlgorithm,
+    };
+  });
+}
+
+/**
+ * Get comma-separated list from environment variable
+ */
+function getEnvList(key: string): string[] {
+  return (process.env[key] ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+/**
+ * Get date from environment variable
+ */
+function getEnvDate(key: string): Date | undefined {
+  const value = process.env[key];
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ConfigError(`Invalid date for ${key}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Get campaign sync filter from environment variables
+ */
+function getSyncFilter(): CampaignFilter {
+  const statuses = getEnvList('SYNC_FILTER_STATUSES').map(status => status.toLowerCase());
+  for (const status of statuses) {
+    if (!CAMPAIGN_STATUSES.includes(status as Campaign['status'])) {
+      throw new ConfigError(
+        `Invalid status in SYNC_FILTER_STATUSES: ${status}. Must be one of: ${CAMPAIGN_STATUSES.join(', ')}`
+      );
+    }
+  }
+
+  const namePattern = process.env.SYNC_FILTER_NAME_PATTERN || undefined;
+  if (namePattern) {
+    try {
+      new RegExp(namePattern);
+    } catch (error) {
+      throw new ConfigError(`Invalid SYNC_FILTER_NAME_PATTERN: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    statuses: statuses as Array<Campaign['status']>,
+    includeIds: getEnvList('SYNC_FILTER_INCLUDE_IDS'),
+    excludeIds: getEnvList('SYNC_FILTER_EXCLUDE_IDS'),
+    createdAfter: getEnvDate('SYNC_FILTER_CREATED_AFTER'),
+    createdBefore: getEnvDate('SYNC_FILTER_CREATED_BEFORE'),
+    namePattern,
+  };
+}
+
+/**
+ * Environment variable prefixes of per-operation retry policies
+ */
+const RETRY_OPERATION_PREFIXES: Record<RetryOperation, string> = {
+  fetchPage: 'FETCH_PAGE_',
+  syncCampaign: 'SYNC_CAMPAIGN_',
+  auth: 'AUTH_',
+};
+
+/**
+ * Get retry policy from environment variables, e.g. AUTH_MAX_RETRY_ATTEMPTS
+ */
+function getRetryPolicy(prefix: string, defaults: RetryPolicy): RetryPolicy {
+  return {
+    maxAttempts: validatePositive(
+      getEnvNumber(`${prefix}MAX_RETRY_ATTEMPTS`, defaults.maxAttempts),
+      `${prefix}MAX_RETRY_ATTEMPTS`
+    ),
+    baseDelay: validatePositive(
+      getEnvNumber(`${prefix}BASE_RETRY_DELAY_MS`, defaults.baseDelay),
+      `${prefix}BASE_RETRY_DELAY_MS`
+    ),
+    jitter: getEnvNumber(`${prefix}RETRY_JITTER_MS`, defaults.jitter),
+    maxDelay: validatePositive(
+      getEnvNumber(`${prefix}MAX_RETRY_DELAY_MS`, defaults.maxDelay),
+      `${prefix}MAX_RETRY_DELAY_MS`
+    ),
+  };
+}
+
+/**
+ * Get retry config; each operation class defaults to the global policy
+ */
+function getRetryConfig(): RetryConfig {
+  const defaults = getRetryPolicy('', {
+    maxAttempts: 5,
+    baseDelay: 1000,
+    jitter: 250,
+    maxDelay: 16000,
+  });
+
+  const operations: Partial<Record<RetryOperation, RetryPolicy>> = {};
+  for (const [operation, prefix] of Object.entries(RETRY_OPERATION_PREFIXES)) {
+    operations[operation as RetryOperation] = getRetryPolicy(prefix, defaults);
+  }
+
+  return { ...defaults, operations };
+}
+
+/**
+ * Validate retry policy constraints
+ */
+function validateRetryPolicy(policy: RetryPolicy, prefix: string): void {
+  if (policy.maxAttempts > 20) {
+    throw new ConfigError(`${prefix}MAX_RETRY_ATTEMPTS cannot exceed 20`);
+  }
+
+  if (policy.baseDelay > policy.maxDelay) {
+    throw new ConfigError(
+      `${prefix}BASE_RETRY_DELAY_MS cannot exceed ${prefix}MAX_RETRY_DELAY_MS`
+    );
+  }
+}
+
 /**
  * Validate URL format
  */
@@ -87,6 +315,10 @@ function validatePositive(value: number, name: string): number {
  */
 export function loadConfig(): Config {
   try {
+    const rateLimitAlgorithm = getRateLimitAlgorithm(
+      getEnvVar('RATE_LIMIT_ALGORITHM', 'sliding_window')
+    );
+
     const config: Config = {
       api: {
         baseUrl: validateUrl(
@@ -113,22 +345,27 @@ export function loadConfig(): Config {
           getEnvNumber('PAGE_SIZE', 10),
           'PAGE_SIZE'
         ),
-      },
-      retry: {
-        maxAttempts: validatePositive(
-          getEnvNumber('MAX_RETRY_ATTEMPTS', 5),
-          'MAX_RETRY_ATTEMPTS'
+        fetchConcurrency: validatePositive(
+          getEnvNumber('FETCH_CONCURRENCY', 3),
+          'FETCH_CONCURRENCY'
         ),
-        baseDelay: validatePositive(
-          getEnvNumber('BASE_RETRY_DELAY_MS', 1000),
-          'BASE_RETRY_DELAY_MS'
+        pageRetries: getEnvNumber('PAGE_FETCH_RETRIES', 2),
+        mode: getSyncMode(getEnvVar('SYNC_MODE', 'full')),
+        deletionPolicy: getDeletionPolicy(getEnvVar('DELETION_POLICY', 'mark')),
+        maxDeletionPercent: getEnvNumber('MAX_DELETION_PERCENT', 20),
+        shutdownTimeout: validatePositive(
+          getEnvNumber('SHUTDOWN_TIMEOUT_MS', DEFAULT_SHUTDOWN_TIMEOUT_MS),
+          'SHUTDOWN_TIMEOUT_MS'
         ),
-        jitter: getEnvNumber('RETRY_JITTER_MS', 250),
-        maxDelay: validatePositive(
-          getEnvNumber('MAX_RETRY_DELAY_MS', 16000),
-          'MAX_RETRY_DELAY_MS'
+        requeueAttempts: getEnvNumber('SYNC_REQUEUE_ATTEMPTS', 1),
+        requeueDelay: validatePositive(
+          getEnvNumber('SYNC_REQUEUE_DELAY_MS', 30000),
+          'SYNC_REQUEUE_DELAY_MS'
         ),
+        filter: getSyncFilter(),
+        priority: getSyncPriority(getEnvVar('SYNC_PRIORITY', 'none')),
       },
+      retry: getRetryConfig(),
       rateLimit: {
         maxRequests: validatePositive(
           getEnvNumber('RATE_LIMIT_MAX_REQUESTS', 10),
@@ -138,6 +375,28 @@ export function loadConfig(): Config {
           getEnvNumber('RATE_LIMIT_WINDOW_MS', 60000),
           'RATE_LIMIT_WINDOW_MS'
         ),
+        algorithm: rateLimitAlgorithm,
+        endpoints: getEndpointRateLimits(rateLimitAlgorithm),
+        backend: getRateLimitBackend(getEnvVar('RATE_LIMIT_BACKEND', 'memory')),
+        key: getEnvVar('RATE_LIMIT_KEY', 'campaign-sync'),
+      },
+      circuitBreaker: {
+        failureThreshold: validatePositive(
+          getEnvNumber('CIRCUIT_FAILURE_THRESHOLD', 5),
+          'CIRCUIT_FAILURE_THRESHOLD'
+        ),
+        resetTimeout: validatePositive(
+          getEnvNumber('CIRCUIT_RESET_TIMEOUT_MS', 30000),
+          'CIRCUIT_RESET_TIMEOUT_MS'
+        ),
+      },
+      retryBudget: {
+        percent: getEnvNumber('RETRY_BUDGET_PERCENT', 20),
+        windowMs: validatePositive(
+          getEnvNumber('RETRY_BUDGET_WINDOW_MS', 60000),
+          'RETRY_BUDGET_WINDOW_MS'
+        ),
+        minRetries: getEnvNumber('RETRY_BUDGET_MIN_RETRIES', 10),
       },
       database: {
         host: getEnvVar('DB_HOST', 'localhost'),
@@ -172,12 +431,45 @@ export function loadConfig(): Config {
       throw new ConfigError('MAX_CONCURRENT_SYNCS cannot exceed 10');
     }
 
-    if (config.retry.maxAttempts > 20) {
-      throw new ConfigError('MAX_RETRY_ATTEMPTS cannot exceed 20');
+    if (config.sync.maxDeletionPercent < 0 || config.sync.maxDeletionPercent > 100) {
+      throw new ConfigError('MAX_DELETION_PERCENT must be between 0 and 100');
+    }
+
+    if (config.sync.fetchConcurrency > 10) {
+      throw new ConfigError('FETCH_CONCURRENCY cannot exceed 10');
+    }
+
+    if (config.sync.pageRetries < 0) {
+      throw new ConfigError(`PAGE_FETCH_RETRIES cannot be negative: ${config.sync.pageRetries}`);
+    }
+
+    if (config.sync.requeueAttempts < 0) {
+      throw new ConfigError(
+        `SYNC_REQUEUE_ATTEMPTS cannot be negative: ${config.sync.requeueAttempts}`
+      );
+    }
+
+    // Shared slots are counted in a sliding window only
+    if (
+      config.rateLimit.backend === 'postgres' &&
+      [config.rateLimit, ...config.rateLimit.endpoints].some(l => l.algorithm === 'token_bucket')
+    ) {
+      throw new ConfigError('RATE_LIMIT_BACKEND=postgres only supports the sliding_window algorithm');
+    }
+
+    if (config.retryBudget.percent < 0 || config.retryBudget.percent > 100) {
+      throw new ConfigError('RETRY_BUDGET_PERCENT must be between 0 and 100');
     }
 
-    if (config.retry.baseDelay > config.retry.maxDelay) {
-      throw new ConfigError('BASE_RETRY_DELAY_MS cannot exceed MAX_RETRY_DELAY_MS');
+    if (config.retryBudget.minRetries < 0) {
+      throw new ConfigError(
+        `RETRY_BUDGET_MIN_RETRIES cannot be negative: ${config.retryBudget.minRetries}`
+      );
+    }
+
+    validateRetryPolicy(config.retry, '');
+    for (const [operation, prefix] of Object.entries(RETRY_OPERATION_PREFIXES)) {
+      validateRetryPolicy(config.retry.operations[operation as RetryOperation]!, prefix);
     }
 
     return config;
@@ -193,10 +485,10 @@ export function loadConfig(): Config {
 }
 
 /**
- * Print configuration (with sensitive data masked)
+ * Mask sensitive configuration values
  */
-export function printConfig(config: Config): void {
-  const masked = {
+export function maskConfig(config: Config): Config {
+  return {
     ...config,
     api: {
       ...config.api,
@@ -207,6 +499,13 @@ export function printConfig(config: Config): void {
       password: '***REDACTED***',
     },
   };
+}
+
+/**
+ * Print configuration (with sensitive data masked)
+ */
+export function printConfig(config: Config): void {
+  const masked = maskConfig(config);
 
   console.log('Configuration:');
   console.log(JSON.stringify(masked, null, 2));
@@ -254,16 +553,40 @@ export function getTestConfig(): Config {
     sync: {
       maxConcurrent: 2,
       pageSize: 10,
+      fetchConcurrency: 2,
+      pageRetries: 1,
+      mode: 'full',
+      deletionPolicy: 'mark',
+      maxDeletionPercent: 20,
+      shutdownTimeout: 1000,
+      requeueAttempts: 1,
+      requeueDelay: 100,
+      filter: {},
+      priority: 'none',
     },
     retry: {
       maxAttempts: 3,
       baseDelay: 100,
       jitter: 50,
       maxDelay: 1000,
+      operations: {},
     },
     rateLimit: {
       maxRequests: 10,
       windowMs: 10000,
+      algorithm: 'sliding_window',
+      endpoints: [],
+      backend: 'memory',
+      key: 'campaign-sync-test',
+    },
+    circuitBreaker: {
+      failureThreshold: 3,
+      resetTimeout: 1000,
+    },
+    retryBudget: {
+      percent: 20,
+      windowMs: 10000,
+      minRetries: 10,
     },
     database: {
       host: 'localhost',
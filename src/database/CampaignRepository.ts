@@ -3,61 +3,88 @@
  */
 
 import { Campaign, CampaignSyncData } from '../types';
-import { ICampaignRepository, IConnectionPool } from './types';
+import { ICampaignRepository, IConnectionPool, IMetricsRepository } from './types';
 import { DatabaseError } from '../utils/ErrorHandler';
 import { logger } from '../utils/Logger';
+import { computeCampaignHash } from '../utils/helpers';
+
+/**
+ * Campaign UPSERT, shared by single and batch saves
+ */
+const UPSERT_CAMPAIGN_QUERY = `
+  INSERT INTO campaigns (
+    id, name, status, budget, impressions, clicks, conversions, created_at,
+    content_hash, synced_at
+  )
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    status = EXCLUDED.status,
+    budget = EXCLUDED.budget,
+    impressions = EXCLUDED.impressions,
+    clicks = EXCLUDED.clicks,
+    conversions = EXCLUDED.conversions,
+    created_at = EXCLUDED.created_at,
+    content_hash = EXCLUDED.content_hash,
+    synced_at = EXCLUDED.synced_at,
+    deleted_at = NULL
+`;
+
+/**
+ * Parameter values of the campaign UPSERT
+ */
+function toUpsertValues(campaign: Campaign): unknown[] {
+  return [
+    campaign.id,
+    campaign.name,
+    campaign.status,
+    campaign.budget,
+    campaign.impressions,
+    campaign.clicks,
+    campaign.conversions,
+    campaign.created_at,
+    computeCampaignHash(campaign),
+  ];
+}
 
 /**
  * Campaign Repository class
+ * With a metrics repository, every save also records a metrics snapshot
+ * in the same transaction, so the two never disagree
  */
 export class CampaignRepository implements ICampaignRepository {
-  constructor(private pool: IConnectionPool) {}
+  constructor(
+    private pool: IConnectionPool,
+    private metrics?: IMetricsRepository
+  ) {}
 
   /**
    * Save single campaign (with UPSERT)
    * Uses parameterized queries to prevent SQL injection
    */
   public async saveCampaign(campaign: Campaign): Promise<void> {
-    const query = `
-      INSERT INTO campaigns (
-        id, name, status, budget, impressions, clicks, conversions, created_at, synced_at
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
-      ON CONFLICT (id) DO UPDATE SET
-        name = EXCLUDED.name,
-        status = EXCLUDED.status,
-        budget = EXCLUDED.budget,
-        impressions = EXCLUDED.impressions,
-        clicks = EXCLUDED.clicks,
-        conversions = EXCLUDED.conversions,
-        created_at = EXCLUDED.created_at,
-        synced_at = EXCLUDED.synced_at
-    `;
-
-    const values = [
-      campaign.id,
-      campaign.name,
-      campaign.status,
-      campaign.budget,
-      campaign.impressions,
-      campaign.clicks,
-      campaign.conversions,
-      campaign.created_at,
-    ];
+    const client = await this.pool.getClient();
 
     try {
-      await this.pool.query(query, values);
-      
+      await client.query('BEGIN');
+      await client.query(UPSERT_CAMPAIGN_QUERY, toUpsertValues(campaign));
+      await this.metrics?.recordSnapshot(campaign, client);
+      await client.query('COMMIT');
+
       logger.debug(`Campaign saved to database`, {
         campaignId: campaign.id,
         name: campaign.name,
       });
     } catch (error) {
+      await client.query('ROLLBACK');
+
       logger.error(`Failed to save campaign ${campaign.id}`, error as Error);
       throw new DatabaseError(
         `Failed to save campaign: ${(error as Error).message}`,
         error as Error
       );
+    } finally {
+      client.release();
     }
   }
 
@@ -74,35 +101,9 @@ export class CampaignRepository implements ICampaignRepository {
     try {
       await client.query('BEGIN');
 
-      const query = `
-        INSERT INTO campaigns (
-          id, name, status, budget, impressions, clicks, conversions, created_at, synced_at
-        )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
-        ON CONFLICT (id) DO UPDATE SET
-          name = EXCLUDED.name,
-          status = EXCLUDED.status,
-          budget = EXCLUDED.budget,
-          impressions = EXCLUDED.impressions,
-          clicks = EXCLUDED.clicks,
-          conversions = EXCLUDED.conversions,
-          created_at = EXCLUDED.created_at,
-          synced_at = EXCLUDED.synced_at
-      `;
-
       for (const campaign of campaigns) {
-        const values = [
-          campaign.id,
-          campaign.name,
-          campaign.status,
-          campaign.budget,
-          campaign.impressions,
-          campaign.clicks,
-          campaign.conversions,
-          campaign.created_at,
-        ];
-
-        await client.query(query, values);
+        await client.query(UPSERT_CAMPAIGN_QUERY, toUpsertValues(campaign));
+        await this.metrics?.recordSnapshot(campaign, client);
       }
 
       await client.query('COMMIT');
@@ -131,7 +132,7 @@ export class CampaignRepository implements ICampaignRepository {
     const query = `
       SELECT 
         id, name, status, budget, impressions, clicks, conversions, 
-        created_at, synced_at
+        created_at, synced_at, deleted_at
       FROM campaigns
       WHERE id = $1
     `;
@@ -160,7 +161,7 @@ export class CampaignRepository implements ICampaignRepository {
     const query = `
       SELECT 
         id, name, status, budget, impressions, clicks, conversions,
-        created_at, synced_at
+        created_at, synced_at, deleted_at
       FROM campaigns
       ORDER BY synced_at DESC
     `;
@@ -177,6 +178,87 @@ export class CampaignRepository implements ICampaignRepository {
     }
   }
 
+  /**
+   * Get stored content hashes keyed by campaign ID
+   */
+  public async getContentHashes(): Promise<Map<string, string>> {
+    const query = `
+      SELECT id, content_hash
+      FROM campaigns
+      WHERE content_hash IS NOT NULL AND deleted_at IS NULL
+    `;
+
+    try {
+      const result = await this.pool.query<{ id: string; content_hash: string }>(query);
+      return new Map(result.rows.map(row => [row.id, row.content_hash]));
+    } catch (error) {
+      logger.error('Failed to get campaign content hashes', error as Error);
+      throw new DatabaseError(
+        `Failed to get content hashes: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get last sync time of each campaign not marked as deleted
+   */
+  public async getSyncTimes(): Promise<Map<string, Date>> {
+    const query = 'SELECT id, synced_at FROM campaigns WHERE deleted_at IS NULL';
+
+    try {
+      const result = await this.pool.query<{ id: string; synced_at: Date }>(query);
+      return new Map(result.rows.map(row => [row.id, row.synced_at]));
+    } catch (error) {
+      logger.error('Failed to get campaign sync times', error as Error);
+      throw new DatabaseError(
+        `Failed to get sync times: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get IDs of campaigns not marked as deleted
+   */
+  public async getActiveCampaignIds(): Promise<string[]> {
+    const query = 'SELECT id FROM campaigns WHERE deleted_at IS NULL';
+
+    try {
+      const result = await this.pool.query<{ id: string }>(query);
+      return result.rows.map(row => row.id);
+    } catch (error) {
+      logger.error('Failed to get active campaign IDs', error as Error);
+      throw new DatabaseError(
+        `Failed to get active campaign IDs: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Mark campaigns as deleted upstream
+   */
+  public async markDeleted(ids: string[]): Promise<number> {
+    const query = `
+      UPDATE campaigns
+      SET deleted_at = NOW()
+      WHERE id = ANY($1) AND deleted_at IS NULL
+    `;
+
+    try {
+      const result = await this.pool.query(query, [ids]);
+      logger.debug(`Campaigns marked as deleted`, { count: result.rowCount });
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to mark campaigns as deleted', error as Error);
+      throw new DatabaseError(
+        `Failed to mark campaigns as deleted: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
   /**
    * Delete campaign by ID
    */
@@ -230,47 +312,14 @@ export class CampaignRepository implements ICampaignRepository {
       );
     }
   }
-
-  /**
-   * Initialize database schema
-   */
-  public async initializeSchema(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS campaigns (
-        id VARCHAR(255) PRIMARY KEY,
-        name VARCHAR(500) NOT NULL,
-        status VARCHAR(50) NOT NULL,
-        budget DECIMAL(15, 2) NOT NULL,
-        impressions INTEGER NOT NULL,
-        clicks INTEGER NOT NULL,
-        conversions INTEGER NOT NULL,
-        created_at TIMESTAMP NOT NULL,
-        synced_at TIMESTAMP NOT NULL,
-        CONSTRAINT campaigns_status_check CHECK (status IN ('active', 'paused', 'completed'))
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
-      CREATE INDEX IF NOT EXISTS idx_campaigns_synced_at ON campaigns(synced_at DESC);
-    `;
-
-    try {
-      await this.pool.query(query);
-      logger.info('Database schema initialized');
-    } catch (error) {
-      logger.error('Failed to initialize schema', error as Error);
-      throw new DatabaseError(
-        `Failed to initialize schema: ${(error as Error).message}`,
-        error as Error
-      );
-    }
-  }
 }
 
 /**
  * Create campaign repository instance
  */
 export function createCampaignRepository(
-  pool: IConnectionPool
+  pool: IConnectionPool,
+  metrics?: IMetricsRepository
 ): CampaignRepository {
-  return new CampaignRepository(pool);
+  return new CampaignRepository(pool, metrics);
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+/**
+ * Dead letter repository for campaigns that kept failing to sync
+ */
+
+import { Campaign, FailedCampaign } from '../types';
+import { DeadLetter, IDeadLetterRepository, IConnectionPool } from './types';
+import { DatabaseError, getErrorCode } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Dead letter row as stored in the database
+ */
+interface DeadLetterRow {
+  campaign_id: string;
+  run_id: string | null;
+  payload: Campaign;
+  error_code: string | null;
+  error_message: string | null;
+  failure_count: number;
+  first_failed_at: Date;
+  last_failed_at: Date;
+}
+
+/**
+ * Dead Letter Repository class
+ */
+export class DeadLetterRepository implements IDeadLetterRepository {
+  constructor(private pool: IConnectionPool) {}
+
+  /**
+   * Dead-letter failed campaigns; campaigns already dead-lettered have
+   * their failure count bumped and latest error recorded
+   */
+  public async addDeadLetters(runId: string, failures: FailedCampaign[]): Promise<void> {
+    if (failures.length === 0) {
+      return;
+    }
+
+    const query = `
+      INSERT INTO dead_letter_campaigns (
+        campaign_id, run_id, payload, error_code, error_message
+      )
+      SELECT t.campaign_id, $1, t.payload, t.error_code, t.error_message
+      FROM UNNEST($2::varchar[], $3::jsonb[], $4::varchar[], $5::text[])
+        AS t(campaign_id, payload, error_code, error_message)
+      ON CONFLICT (campaign_id) DO UPDATE SET
+        run_id = EXCLUDED.run_id,
+        payload = EXCLUDED.payload,
+        error_code = EXCLUDED.error_code,
+        error_message = EXCLUDED.error_message,
+        failure_count = dead_letter_campaigns.failure_count + 1,
+        last_failed_at = NOW()
+    `;
+
+    try {
+      await this.pool.query(query, [
+        runId,
+        failures.map(f => f.campaign.id),
+        failures.map(f => JSON.stringify(f.campaign)),
+        failures.map(f => getErrorCode(f.result.error)),
+        failures.map(f => f.result.error?.message ?? null),
+      ]);
+
+      logger.debug('Campaigns dead-lettered', { runId, count: failures.length });
+    } catch (error) {
+      logger.error(`Failed to dead-letter campaigns of sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to dead-letter campaigns: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * List dead-lettered campaigns, most recently failed first
+   */
+  public async listDeadLetters(limit?: number): Promise<DeadLetter[]> {
+    const query = `
+      SELECT campaign_id, run_id, payload, error_code, error_message,
+        failure_count, first_failed_at, last_failed_at
+      FROM dead_letter_campaigns
+      ORDER BY last_failed_at DESC, campaign_id
+      LIMIT $1
+    `;
+
+    try {
+      const result = await this.pool.query<DeadLetterRow>(query, [limit ?? null]);
+      return result.rows.map(toDeadLetter);
+    } catch (error) {
+      logger.error('Failed to list dead-lettered campaigns', error as Error);
+      throw new DatabaseError(
+        `Failed to list dead letters: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Remove campaigns from the dead letter table, e.g. once they synced
+   */
+  public async removeDeadLetters(campaignIds: string[]): Promise<number> {
+    if (campaignIds.length === 0) {
+      return 0;
+    }
+
+    const query = 'DELETE FROM dead_letter_campaigns WHERE campaign_id = ANY($1)';
+
+    try {
+      const result = await this.pool.query(query, [campaignIds]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to remove dead-lettered campaigns', error as Error);
+      throw new DatabaseError(
+        `Failed to remove dead letters: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+}
+
+/**
+ * Map a dead letter row to its domain object
+ */
+function toDeadLetter(row: DeadLetterRow): DeadLetter {
+  return {
+    campaignId: row.campaign_id,
+    runId: row.run_id,
+    campaign: row.payload,
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    failureCount: Number(row.failure_count),
+    firstFailedAt: new Date(row.first_failed_at),
+    lastFailedAt: new Date(row.last_failed_at),
+  };
+}
+
+/**
+ * Create dead letter repository instance
+ */
+export function createDeadLetterRepository(
+  pool: IConnectionPool
+): DeadLetterRepository {
+  return new DeadLetterRepository(pool);
+}
\ No newline at end of file
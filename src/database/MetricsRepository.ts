@@ -0,0 +1,209 @@
+/**
+ * Metrics repository for the append-only campaign metrics history
+ */
+
+import { Campaign } from '../types';
+import {
+  DailyMetricsDelta,
+  IConnectionPool,
+  IMetricsRepository,
+  MetricsSnapshot,
+  QueryExecutor,
+  TimeRange,
+} from './types';
+import { DatabaseError } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Snapshot row as stored in the database
+ */
+interface SnapshotRow {
+  campaign_id: string;
+  status: Campaign['status'];
+  budget: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  captured_at: Date;
+}
+
+/**
+ * Daily delta row as returned by the database
+ */
+interface DailyDeltaRow {
+  day: Date | string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  impressions_delta: string | null;
+  clicks_delta: string | null;
+  conversions_delta: string | null;
+}
+
+/**
+ * Metrics Repository class
+ */
+export class MetricsRepository implements IMetricsRepository {
+  constructor(private pool: IConnectionPool) {}
+
+  /**
+   * Append a metrics snapshot for a synced campaign
+   * Pass a transaction's client to write it alongside the campaign
+   */
+  public async recordSnapshot(
+    campaign: Campaign,
+    executor: QueryExecutor = this.pool
+  ): Promise<void> {
+    const query = `
+      INSERT INTO campaign_metrics_snapshots (
+        campaign_id, status, budget, impressions, clicks, conversions, captured_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, NOW())
+    `;
+
+    const values = [
+      campaign.id,
+      campaign.status,
+      campaign.budget,
+      campaign.impressions,
+      campaign.clicks,
+      campaign.conversions,
+    ];
+
+    try {
+      await executor.query(query, values);
+
+      logger.debug('Metrics snapshot recorded', { campaignId: campaign.id });
+    } catch (error) {
+      logger.error(`Failed to record metrics snapshot for ${campaign.id}`, error as Error);
+      throw new DatabaseError(
+        `Failed to record metrics snapshot: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get a campaign's metrics time series (oldest first)
+   */
+  public async getTimeSeries(
+    campaignId: string,
+    range: TimeRange = {}
+  ): Promise<MetricsSnapshot[]> {
+    const query = `
+      SELECT
+        campaign_id, status, budget, impressions, clicks, conversions, captured_at
+      FROM campaign_metrics_snapshots
+      WHERE campaign_id = $1
+        AND ($2::timestamp IS NULL OR captured_at >= $2)
+        AND ($3::timestamp IS NULL OR captured_at < $3)
+      ORDER BY captured_at ASC
+    `;
+
+    try {
+      const result = await this.pool.query<SnapshotRow>(query, [
+        campaignId,
+        range.from ?? null,
+        range.to ?? null,
+      ]);
+
+      return result.rows.map(row => ({
+        campaignId: row.campaign_id,
+        status: row.status,
+        budget: Number(row.budget),
+        impressions: Number(row.impressions),
+        clicks: Number(row.clicks),
+        conversions: Number(row.conversions),
+        capturedAt: new Date(row.captured_at),
+      }));
+    } catch (error) {
+      logger.error(`Failed to get metrics time series for ${campaignId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to get metrics time series: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get per-day metrics deltas using the last snapshot of each day
+   */
+  public async getDailyDeltas(
+    campaignId: string,
+    range: TimeRange = {}
+  ): Promise<DailyMetricsDelta[]> {
+    const query = `
+      WITH daily AS (
+        SELECT DISTINCT ON (captured_at::date)
+          captured_at::date AS day, impressions, clicks, conversions
+        FROM campaign_metrics_snapshots
+        WHERE campaign_id = $1
+          AND ($2::timestamp IS NULL OR captured_at >= $2)
+          AND ($3::timestamp IS NULL OR captured_at < $3)
+        ORDER BY captured_at::date, captured_at DESC
+      )
+      SELECT
+        day, impressions, clicks, conversions,
+        impressions - LAG(impressions) OVER (ORDER BY day) AS impressions_delta,
+        clicks - LAG(clicks) OVER (ORDER BY day) AS clicks_delta,
+        conversions - LAG(conversions) OVER (ORDER BY day) AS conversions_delta
+      FROM daily
+      ORDER BY day ASC
+    `;
+
+    try {
+      const result = await this.pool.query<DailyDeltaRow>(query, [
+        campaignId,
+        range.from ?? null,
+        range.to ?? null,
+      ]);
+
+      return result.rows.map(row => ({
+        date: toDateString(row.day),
+        impressions: Number(row.impressions),
+        clicks: Number(row.clicks),
+        conversions: Number(row.conversions),
+        impressionsDelta: toNullableNumber(row.impressions_delta),
+        clicksDelta: toNullableNumber(row.clicks_delta),
+        conversionsDelta: toNullableNumber(row.conversions_delta),
+      }));
+    } catch (error) {
+      logger.error(`Failed to get daily metrics deltas for ${campaignId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to get daily metrics deltas: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+}
+
+/**
+ * Format a DATE column value as YYYY-MM-DD
+ */
+function toDateString(value: Date | string): string {
+  if (typeof value === 'string') {
+    return value.substring(0, 10);
+  }
+
+  const year = value.getFullYear();
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Convert a nullable numeric column value
+ */
+function toNullableNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+/**
+ * Create metrics repository instance
+ */
+export function createMetricsRepository(
+  pool: IConnectionPool
+): MetricsRepository {
+  return new MetricsRepository(pool);
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+/**
+ * Rate limit repository for request slots shared between sync processes
+ */
+
+import { RateLimitSlot } from '../types';
+import { IConnectionPool, IRateLimitRepository } from './types';
+import { DatabaseError } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Slot window row as read in the database
+ */
+interface SlotWindowRow {
+  slot_count: string;
+  retry_after_ms: string | null;
+}
+
+/**
+ * Rate Limit Repository class
+ */
+export class RateLimitRepository implements IRateLimitRepository {
+  constructor(private pool: IConnectionPool) {}
+
+  /**
+   * Claim a request slot in the key's sliding window
+   * A transaction-scoped advisory lock on the key serialises claims across
+   * processes; the database clock is used so process clocks may drift
+   */
+  public async acquireSlot(
+    key: string,
+    maxRequests: number,
+    windowMs: number
+  ): Promise<RateLimitSlot> {
+    const client = await this.pool.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      await client.query(
+        `
+        DELETE FROM rate_limit_slots
+        WHERE limiter_key = $1
+          AND acquired_at <= clock_timestamp() - make_interval(secs => $2::float8 / 1000)
+        `,
+        [key, windowMs]
+      );
+
+      const result = await client.query<SlotWindowRow>(
+        `
+        SELECT
+          COUNT(*) AS slot_count,
+          CEIL(EXTRACT(EPOCH FROM
+            MIN(acquired_at) + make_interval(secs => $2::float8 / 1000) - clock_timestamp()
+          ) * 1000) AS retry_after_ms
+        FROM rate_limit_slots
+        WHERE limiter_key = $1
+        `,
+        [key, windowMs]
+      );
+
+      const slotCount = Number(result.rows[0]?.slot_count ?? 0);
+      let slot: RateLimitSlot;
+
+      if (slotCount < maxRequests) {
+        await client.query(
+          'INSERT INTO rate_limit_slots (limiter_key, acquired_at) VALUES ($1, clock_timestamp())',
+          [key]
+        );
+        slot = { acquired: true, remaining: maxRequests - slotCount - 1, retryAfterMs: 0 };
+      } else {
+        slot = {
+          acquired: false,
+          remaining: 0,
+          retryAfterMs: Math.max(1, Number(result.rows[0]?.retry_after_ms ?? 1)),
+        };
+      }
+
+      await client.query('COMMIT');
+      return slot;
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      logger.error(`Failed to acquire rate limit slot for ${key}`, error as Error);
+      throw new DatabaseError(
+        `Failed to acquire rate limit slot: ${(error as Error).message}`,
+        error as Error
+      );
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/**
+ * Create rate limit repository instance
+ */
+export function createRateLimitRepository(pool: IConnectionPool): RateLimitRepository {
+  return new RateLimitRepository(pool);
+}
\ No newline at end of file
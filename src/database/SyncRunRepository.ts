@@ -0,0 +1,472 @@
+/**
+ * Sync run repository for persisting sync reports and per-campaign results
+ */
+
+import {
+  Campaign,
+  CampaignRunState,
+  ResumableRun,
+  SyncReport,
+  SyncMode,
+} from '../types';
+import {
+  ISyncRunRepository,
+  IConnectionPool,
+  SyncRunFailure,
+  SyncRunStatus,
+  SyncRunSummary,
+} from './types';
+import { DatabaseError, getErrorCode } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Sync run row as stored in the database
+ */
+interface SyncRunRow {
+  id: string;
+  mode: SyncMode;
+  status: SyncRunStatus;
+  started_at: Date;
+  finished_at: Date | null;
+  duration_ms: number | null;
+  total_campaigns: number;
+  skipped_count: number;
+  success_count: number;
+  failure_count: number;
+  retry_count: number;
+  backoff_ms: number;
+}
+
+/**
+ * Columns selected for run summaries
+ */
+const RUN_COLUMNS = `
+  id, mode, status, started_at, finished_at, duration_ms, total_campaigns,
+  skipped_count, success_count, failure_count, retry_count, backoff_ms
+`;
+
+/**
+ * Sync Run Repository class
+ */
+export class SyncRunRepository implements ISyncRunRepository {
+  constructor(private pool: IConnectionPool) {}
+
+  /**
+   * Record a started run
+   */
+  public async startRun(
+    runId: string,
+    mode: SyncMode,
+    startedAt: Date
+  ): Promise<void> {
+    const query = `
+      INSERT INTO sync_runs (
+        id, mode, status, started_at, total_campaigns, success_count, failure_count
+      )
+      VALUES ($1, $2, 'running', $3, 0, 0, 0)
+    `;
+
+    try {
+      await this.pool.query(query, [runId, mode, startedAt]);
+      logger.debug('Sync run started', { runId });
+    } catch (error) {
+      logger.error(`Failed to start sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to start sync run: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Append campaigns to a run, after those already recorded
+   */
+  public async addRunCampaigns(runId: string, campaigns: Campaign[]): Promise<void> {
+    const query = `
+      INSERT INTO sync_run_campaigns (run_id, campaign_id, position, payload)
+      SELECT $1, t.campaign_id, offset_position.value + t.ordinality, t.payload
+      FROM UNNEST($2::varchar[], $3::jsonb[]) WITH ORDINALITY
+        AS t(campaign_id, payload, ordinality)
+      CROSS JOIN (
+        SELECT COALESCE(MAX(position), 0) AS value
+        FROM sync_run_campaigns
+        WHERE run_id = $1
+      ) AS offset_position
+      ON CONFLICT (run_id, campaign_id) DO NOTHING
+    `;
+
+    try {
+      await this.pool.query(query, [
+        runId,
+        campaigns.map(c => c.id),
+        campaigns.map(c => JSON.stringify(c)),
+      ]);
+    } catch (error) {
+      logger.error(`Failed to add campaigns to sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to add campaigns to sync run: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Record that every upstream campaign of a run has been added to it
+   */
+  public async markListingComplete(runId: string): Promise<void> {
+    const query = `
+      UPDATE sync_runs
+      SET listing_complete = TRUE
+      WHERE id = $1
+    `;
+
+    try {
+      await this.pool.query(query, [runId]);
+    } catch (error) {
+      logger.error(`Failed to mark listing complete for sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to mark listing complete: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Record the completion state of a campaign within a run
+   */
+  public async markCampaign(
+    runId: string,
+    campaignId: string,
+    state: CampaignRunState
+  ): Promise<void> {
+    const query = `
+      UPDATE sync_run_campaigns
+      SET state = $3, updated_at = NOW()
+      WHERE run_id = $1 AND campaign_id = $2
+    `;
+
+    try {
+      await this.pool.query(query, [runId, campaignId, state]);
+    } catch (error) {
+      logger.error(`Failed to mark campaign ${campaignId} in run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to mark campaign state: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get an unfinished run with the campaigns it has not synced yet
+   * Defaults to the most recently started unfinished run
+   */
+  public async getResumableRun(runId?: string): Promise<ResumableRun | null> {
+    const runQuery = `
+      SELECT id, mode, started_at, listing_complete
+      FROM sync_runs
+      WHERE status IN ('running', 'interrupted') AND ($1::varchar IS NULL OR id = $1)
+      ORDER BY started_at DESC
+      LIMIT 1
+    `;
+
+    const campaignsQuery = `
+      SELECT payload, state
+      FROM sync_run_campaigns
+      WHERE run_id = $1
+      ORDER BY position
+    `;
+
+    try {
+      const runResult = await this.pool.query<{
+        id: string;
+        mode: SyncMode;
+        started_at: Date;
+        listing_complete: boolean;
+      }>(runQuery, [runId ?? null]);
+
+      if (runResult.rows.length === 0) {
+        return null;
+      }
+
+      const run = runResult.rows[0];
+      const campaignsResult = await this.pool.query<{
+        payload: Campaign;
+        state: CampaignRunState;
+      }>(campaignsQuery, [run.id]);
+
+      const remaining = campaignsResult.rows.filter(row => row.state !== 'succeeded');
+
+      return {
+        runId: run.id,
+        mode: run.mode,
+        startedAt: new Date(run.started_at),
+        campaigns: remaining.map(row => row.payload),
+        completedCount: campaignsResult.rows.length - remaining.length,
+        recordedIds: campaignsResult.rows.map(row => row.payload.id),
+        listingComplete: run.listing_complete,
+      };
+    } catch (error) {
+      logger.error('Failed to get resumable sync run', error as Error);
+      throw new DatabaseError(
+        `Failed to get resumable sync run: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Save a sync report and its per-campaign results in a transaction
+   * Completes the run row if it was recorded by startRun; interrupted
+   * reports leave it resumable
+   */
+  public async saveRun(report: SyncReport): Promise<void> {
+    const client = await this.pool.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `
+        INSERT INTO sync_runs (
+          id, mode, status, started_at, finished_at, duration_ms, total_campaigns,
+          skipped_count, success_count, failure_count, retry_count, backoff_ms
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        -- A resumed run only reports its own attempt, so counts add to the stored ones.
+        -- Failed campaigns are retried on resume, so only the latest failures count
+        ON CONFLICT (id) DO UPDATE SET
+          status = EXCLUDED.status,
+          finished_at = EXCLUDED.finished_at,
+          duration_ms = COALESCE(sync_runs.duration_ms, 0) + EXCLUDED.duration_ms,
+          total_campaigns = GREATEST(sync_runs.total_campaigns, EXCLUDED.total_campaigns),
+          skipped_count = sync_runs.skipped_count + EXCLUDED.skipped_count,
+          success_count = sync_runs.success_count + EXCLUDED.success_count,
+          failure_count = EXCLUDED.failure_count,
+          retry_count = sync_runs.retry_count + EXCLUDED.retry_count,
+          backoff_ms = sync_runs.backoff_ms + EXCLUDED.backoff_ms
+        `,
+        [
+          report.runId,
+          report.mode,
+          report.interrupted ? 'interrupted' : 'completed',
+          report.startTime,
+          report.endTime,
+          report.duration,
+          report.totalCampaigns,
+          report.skippedCount,
+          report.successCount,
+          report.failureCount,
+          report.retryCount,
+          report.backoffMs,
+        ]
+      );
+
+      // Keep the last result per campaign; one INSERT cannot touch a row twice
+      const results = Array.from(
+        new Map(report.results.map(r => [r.campaignId, r])).values()
+      );
+
+      if (results.length > 0) {
+        // Insert all results in one statement using parallel arrays
+        await client.query(
+          `
+          INSERT INTO sync_run_results (
+            run_id, campaign_id, success, retries, duration_ms, error_code, error_message,
+            backoff_ms, attempt_error_codes
+          )
+          SELECT $1, r.campaign_id, r.success, r.retries, r.duration_ms, r.error_code,
+            r.error_message, r.backoff_ms,
+            -- UNNEST flattens array-of-arrays, so codes travel as comma-joined text
+            string_to_array(r.attempt_error_codes, ',')
+          FROM UNNEST(
+            $2::varchar[], $3::boolean[], $4::integer[], $5::integer[], $6::varchar[], $7::text[],
+            $8::integer[], $9::text[]
+          ) AS r(
+            campaign_id, success, retries, duration_ms, error_code, error_message,
+            backoff_ms, attempt_error_codes
+          )
+          ON CONFLICT (run_id, campaign_id) DO UPDATE SET
+            success = EXCLUDED.success,
+            retries = EXCLUDED.retries,
+            duration_ms = EXCLUDED.duration_ms,
+            error_code = EXCLUDED.error_code,
+            error_message = EXCLUDED.error_message,
+            backoff_ms = EXCLUDED.backoff_ms,
+            attempt_error_codes = EXCLUDED.attempt_error_codes
+          `,
+          [
+            report.runId,
+            results.map(r => r.campaignId),
+            results.map(r => r.success),
+            results.map(r => r.retries),
+            results.map(r => r.duration),
+            results.map(r => getErrorCode(r.error)),
+            results.map(r => r.error?.message ?? null),
+            results.map(r => r.backoffMs),
+            results.map(r => r.attempts.map(a => a.errorCode ?? 'UNKNOWN').join(',')),
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      logger.debug('Sync run saved to database', {
+        runId: report.runId,
+        results: results.length,
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      logger.error(`Failed to save sync run ${report.runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to save sync run: ${(error as Error).message}`,
+        error as Error
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a run that stopped on an unexpected error as failed
+   * Failed runs are not resumable; the next sync starts over
+   */
+  public async failRun(runId: string): Promise<void> {
+    const query = `
+      UPDATE sync_runs
+      SET status = 'failed', finished_at = NOW()
+      WHERE id = $1
+    `;
+
+    try {
+      await this.pool.query(query, [runId]);
+      logger.debug('Sync run failed', { runId });
+    } catch (error) {
+      logger.error(`Failed to mark sync run ${runId} as failed`, error as Error);
+      throw new DatabaseError(
+        `Failed to mark sync run as failed: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get sync run by ID
+   */
+  public async getRun(runId: string): Promise<SyncRunSummary | null> {
+    const query = `
+      SELECT ${RUN_COLUMNS}
+      FROM sync_runs
+      WHERE id = $1
+    `;
+
+    try {
+      const result = await this.pool.query<SyncRunRow>(query, [runId]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return toSummary(result.rows[0]);
+    } catch (error) {
+      logger.error(`Failed to get sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to get sync run: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * List most recent sync runs (newest first)
+   */
+  public async listRecentRuns(limit = 10): Promise<SyncRunSummary[]> {
+    const query = `
+      SELECT ${RUN_COLUMNS}
+      FROM sync_runs
+      ORDER BY started_at DESC
+      LIMIT $1
+    `;
+
+    try {
+      const result = await this.pool.query<SyncRunRow>(query, [limit]);
+      return result.rows.map(toSummary);
+    } catch (error) {
+      logger.error('Failed to list sync runs', error as Error);
+      throw new DatabaseError(
+        `Failed to list sync runs: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get failed campaign results of a sync run
+   */
+  public async getRunFailures(runId: string): Promise<SyncRunFailure[]> {
+    const query = `
+      SELECT campaign_id, retries, backoff_ms, attempt_error_codes, duration_ms,
+        error_code, error_message
+      FROM sync_run_results
+      WHERE run_id = $1 AND NOT success
+      ORDER BY campaign_id
+    `;
+
+    try {
+      const result = await this.pool.query<{
+        campaign_id: string;
+        retries: number;
+        backoff_ms: number;
+        attempt_error_codes: string[];
+        duration_ms: number;
+        error_code: string | null;
+        error_message: string | null;
+      }>(query, [runId]);
+
+      return result.rows.map(row => ({
+        campaignId: row.campaign_id,
+        retries: Number(row.retries),
+        backoffMs: Number(row.backoff_ms),
+        attemptErrorCodes: row.attempt_error_codes,
+        durationMs: Number(row.duration_ms),
+        errorCode: row.error_code,
+        errorMessage: row.error_message,
+      }));
+    } catch (error) {
+      logger.error(`Failed to get failures of sync run ${runId}`, error as Error);
+      throw new DatabaseError(
+        `Failed to get sync run failures: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+}
+
+/**
+ * Map a sync run row to its summary
+ */
+function toSummary(row: SyncRunRow): SyncRunSummary {
+  return {
+    runId: row.id,
+    mode: row.mode,
+    status: row.status,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    durationMs: row.duration_ms === null ? null : Number(row.duration_ms),
+    totalCampaigns: Number(row.total_campaigns),
+    skippedCount: Number(row.skipped_count),
+    successCount: Number(row.success_count),
+    failureCount: Number(row.failure_count),
+    retryCount: Number(row.retry_count),
+    backoffMs: Number(row.backoff_ms),
+  };
+}
+
+/**
+ * Create sync run repository instance
+ */
+export function createSyncRunRepository(
+  pool: IConnectionPool
+): SyncRunRepository {
+  return new SyncRunRepository(pool);
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Sync state repository for persisting sync checkpoints (high-water marks)
+ */
+
+import { SyncCheckpoint } from '../types';
+import { ISyncStateRepository, IConnectionPool } from './types';
+import { DatabaseError } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Default checkpoint name for the campaign sync
+ */
+export const CAMPAIGN_SYNC_CHECKPOINT = 'campaigns';
+
+/**
+ * Sync State Repository class
+ */
+export class SyncStateRepository implements ISyncStateRepository {
+  constructor(private pool: IConnectionPool) {}
+
+  /**
+   * Get checkpoint by name
+   */
+  public async getCheckpoint(name: string): Promise<SyncCheckpoint | null> {
+    const query = `
+      SELECT last_synced_at, campaign_count
+      FROM sync_checkpoints
+      WHERE name = $1
+    `;
+
+    try {
+      const result = await this.pool.query<{
+        last_synced_at: Date;
+        campaign_count: number;
+      }>(query, [name]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+
+      return {
+        lastSyncedAt: new Date(row.last_synced_at),
+        campaignCount: Number(row.campaign_count),
+      };
+    } catch (error) {
+      logger.error(`Failed to get sync checkpoint ${name}`, error as Error);
+      throw new DatabaseError(
+        `Failed to get sync checkpoint: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Save checkpoint (with UPSERT)
+   */
+  public async saveCheckpoint(
+    name: string,
+    checkpoint: SyncCheckpoint
+  ): Promise<void> {
+    const query = `
+      INSERT INTO sync_checkpoints (name, last_synced_at, campaign_count, updated_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (name) DO UPDATE SET
+        last_synced_at = EXCLUDED.last_synced_at,
+        campaign_count = EXCLUDED.campaign_count,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const values = [
+      name,
+      checkpoint.lastSyncedAt,
+      checkpoint.campaignCount,
+    ];
+
+    try {
+      await this.pool.query(query, values);
+
+      logger.debug('Sync checkpoint saved', {
+        name,
+        lastSyncedAt: checkpoint.lastSyncedAt.toISOString(),
+      });
+    } catch (error) {
+      logger.error(`Failed to save sync checkpoint ${name}`, error as Error);
+      throw new DatabaseError(
+        `Failed to save sync checkpoint: ${(error as Error).message}`,
+        error as Error
+      );
+    }
+  }
+}
+
+/**
+ * Create sync state repository instance
+ */
+export function createSyncStateRepository(
+  pool: IConnectionPool
+): SyncStateRepository {
+  return new SyncStateRepository(pool);
+}
\ No newline at end of file
@@ -0,0 +1,582 @@
+/**
+ * Versioned schema migrations
+ * - Numbered up/down migrations applied in order
+ * - Applied versions tracked in schema_migrations with checksums
+ * - Advisory lock so concurrent processes never migrate at the same time
+ */
+
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+import {
+  IConnectionPool,
+  IMigrationRunner,
+  Migration,
+  MigrationStatus,
+} from './types';
+import { MigrationError } from '../utils/ErrorHandler';
+import { logger } from '../utils/Logger';
+
+/**
+ * Advisory lock key shared by every process running migrations
+ */
+const MIGRATION_LOCK_KEY = 727310001;
+
+/**
+ * Schema migrations, in version order
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_campaigns',
+    up: `
+      CREATE TABLE IF NOT EXISTS campaigns (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(500) NOT NULL,
+        status VARCHAR(50) NOT NULL,
+        budget DECIMAL(15, 2) NOT NULL,
+        impressions INTEGER NOT NULL DEFAULT 0,
+        clicks INTEGER NOT NULL DEFAULT 0,
+        conversions INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL,
+        synced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT campaigns_status_check CHECK (status IN ('active', 'paused', 'completed'))
+      );
+
+      -- Bring tables created by the legacy initializeSchema in line with schema.sql
+      ALTER TABLE campaigns ALTER COLUMN impressions SET DEFAULT 0;
+      ALTER TABLE campaigns ALTER COLUMN clicks SET DEFAULT 0;
+      ALTER TABLE campaigns ALTER COLUMN conversions SET DEFAULT 0;
+      ALTER TABLE campaigns ALTER COLUMN synced_at SET DEFAULT CURRENT_TIMESTAMP;
+
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'campaigns_budget_check') THEN
+          ALTER TABLE campaigns ADD CONSTRAINT campaigns_budget_check CHECK (budget >= 0);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'campaigns_impressions_check') THEN
+          ALTER TABLE campaigns ADD CONSTRAINT campaigns_impressions_check CHECK (impressions >= 0);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'campaigns_clicks_check') THEN
+          ALTER TABLE campaigns ADD CONSTRAINT campaigns_clicks_check CHECK (clicks >= 0);
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'campaigns_conversions_check') THEN
+          ALTER TABLE campaigns ADD CONSTRAINT campaigns_conversions_check CHECK (conversions >= 0);
+        END IF;
+      END $$;
+
+      CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
+      CREATE INDEX IF NOT EXISTS idx_campaigns_synced_at ON campaigns(synced_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_campaigns_created_at ON campaigns(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_campaigns_name ON campaigns(name);
+    `,
+    down: `
+      DROP TABLE IF EXISTS campaigns;
+    `,
+  },
+  {
+    version: 2,
+    name: 'incremental_sync',
+    up: `
+      ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+
+      CREATE TABLE IF NOT EXISTS sync_checkpoints (
+        name VARCHAR(100) PRIMARY KEY,
+        last_synced_at TIMESTAMP NOT NULL,
+        campaign_count INTEGER NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS sync_checkpoints;
+      ALTER TABLE campaigns DROP COLUMN IF EXISTS content_hash;
+    `,
+  },
+  {
+    version: 3,
+    name: 'campaign_metrics_snapshots',
+    up: `
+      -- Append-only history; no foreign key so it outlives deleted campaigns
+      CREATE TABLE IF NOT EXISTS campaign_metrics_snapshots (
+        id BIGSERIAL PRIMARY KEY,
+        campaign_id VARCHAR(255) NOT NULL,
+        status VARCHAR(50) NOT NULL,
+        budget DECIMAL(15, 2) NOT NULL,
+        impressions INTEGER NOT NULL,
+        clicks INTEGER NOT NULL,
+        conversions INTEGER NOT NULL,
+        captured_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_metrics_snapshots_campaign_captured
+        ON campaign_metrics_snapshots(campaign_id, captured_at DESC);
+    `,
+    down: `
+      DROP TABLE IF EXISTS campaign_metrics_snapshots;
+    `,
+  },
+  {
+    version: 4,
+    name: 'sync_runs',
+    up: `
+      CREATE TABLE IF NOT EXISTS sync_runs (
+        id VARCHAR(64) PRIMARY KEY,
+        mode VARCHAR(20) NOT NULL,
+        started_at TIMESTAMP NOT NULL,
+        finished_at TIMESTAMP NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        total_campaigns INTEGER NOT NULL,
+        skipped_count INTEGER NOT NULL DEFAULT 0,
+        success_count INTEGER NOT NULL,
+        failure_count INTEGER NOT NULL,
+        retry_count INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at DESC);
+
+      CREATE TABLE IF NOT EXISTS sync_run_results (
+        run_id VARCHAR(64) NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+        campaign_id VARCHAR(255) NOT NULL,
+        success BOOLEAN NOT NULL,
+        retries INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL,
+        error_code VARCHAR(50),
+        error_message TEXT,
+        PRIMARY KEY (run_id, campaign_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sync_run_results_failures
+        ON sync_run_results(run_id) WHERE NOT success;
+    `,
+    down: `
+      DROP TABLE IF EXISTS sync_run_results;
+      DROP TABLE IF EXISTS sync_runs;
+    `,
+  },
+  {
+    version: 5,
+    name: 'campaign_soft_delete',
+    up: `
+      ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+      CREATE INDEX IF NOT EXISTS idx_campaigns_deleted_at
+        ON campaigns(deleted_at) WHERE deleted_at IS NOT NULL;
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_campaigns_deleted_at;
+      ALTER TABLE campaigns DROP COLUMN IF EXISTS deleted_at;
+    `,
+  },
+  {
+    version: 6,
+    name: 'resumable_sync_runs',
+    up: `
+      ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed';
+      ALTER TABLE sync_runs ALTER COLUMN finished_at DROP NOT NULL;
+      ALTER TABLE sync_runs ALTER COLUMN duration_ms DROP NOT NULL;
+
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'sync_runs_status_check'
+        ) THEN
+          ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+            CHECK (status IN ('running', 'completed'));
+        END IF;
+      END $$;
+
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_running
+        ON sync_runs(started_at DESC) WHERE status = 'running';
+
+      CREATE TABLE IF NOT EXISTS sync_run_campaigns (
+        run_id VARCHAR(64) NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+        campaign_id VARCHAR(255) NOT NULL,
+        position INTEGER NOT NULL,
+        payload JSONB NOT NULL,
+        state VARCHAR(20) NOT NULL DEFAULT 'pending',
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (run_id, campaign_id),
+        CONSTRAINT sync_run_campaigns_state_check
+          CHECK (state IN ('pending', 'succeeded', 'failed'))
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS sync_run_campaigns;
+      DELETE FROM sync_runs WHERE status <> 'completed';
+      DROP INDEX IF EXISTS idx_sync_runs_running;
+      ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+      ALTER TABLE sync_runs ALTER COLUMN duration_ms SET NOT NULL;
+      ALTER TABLE sync_runs ALTER COLUMN finished_at SET NOT NULL;
+      ALTER TABLE sync_runs DROP COLUMN IF EXISTS status;
+    `,
+  },
+  {
+    version: 7,
+    name: 'interrupted_sync_runs',
+    up: `
+      ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+      ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+        CHECK (status IN ('running', 'interrupted', 'completed'));
+
+      DROP INDEX IF EXISTS idx_sync_runs_running;
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_unfinished
+        ON sync_runs(started_at DESC) WHERE status <> 'completed';
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_sync_runs_unfinished;
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_running
+        ON sync_runs(started_at DESC) WHERE status = 'running';
+
+      UPDATE sync_runs SET status = 'running' WHERE status = 'interrupted';
+      ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+      ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+        CHECK (status IN ('running', 'completed'));
+    `,
+  },
+  {
+    version: 8,
+    name: 'sync_retry_accounting',
+    up: `
+      ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS backoff_ms BIGINT NOT NULL DEFAULT 0;
+
+      ALTER TABLE sync_run_results ADD COLUMN IF NOT EXISTS backoff_ms INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sync_run_results
+        ADD COLUMN IF NOT EXISTS attempt_error_codes TEXT[] NOT NULL DEFAULT '{}';
+    `,
+    down: `
+      ALTER TABLE sync_run_results DROP COLUMN IF EXISTS attempt_error_codes;
+      ALTER TABLE sync_run_results DROP COLUMN IF EXISTS backoff_ms;
+      ALTER TABLE sync_runs DROP COLUMN IF EXISTS backoff_ms;
+    `,
+  },
+  {
+    version: 9,
+    name: 'dead_letter_campaigns',
+    up: `
+      CREATE TABLE IF NOT EXISTS dead_letter_campaigns (
+        campaign_id VARCHAR(255) PRIMARY KEY,
+        run_id VARCHAR(64) REFERENCES sync_runs(id) ON DELETE SET NULL,
+        payload JSONB NOT NULL,
+        error_code VARCHAR(50),
+        error_message TEXT,
+        failure_count INTEGER NOT NULL DEFAULT 1,
+        first_failed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_failed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dead_letter_campaigns_last_failed_at
+        ON dead_letter_campaigns(last_failed_at DESC);
+    `,
+    down: `
+      DROP TABLE IF EXISTS dead_letter_campaigns;
+    `,
+  },
+  {
+    version: 10,
+    name: 'rate_limit_slots',
+    up: `
+      CREATE TABLE IF NOT EXISTS rate_limit_slots (
+        id BIGSERIAL PRIMARY KEY,
+        limiter_key VARCHAR(255) NOT NULL,
+        acquired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_slots_key_acquired_at
+        ON rate_limit_slots(limiter_key, acquired_at);
+    `,
+    down: `
+      DROP TABLE IF EXISTS rate_limit_slots;
+    `,
+  },
+  {
+    version: 11,
+    name: 'sync_run_listing',
+    up: `
+      ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS listing_complete BOOLEAN NOT NULL DEFAULT FALSE;
+      UPDATE sync_runs SET listing_complete = TRUE WHERE status = 'completed';
+
+      ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+      ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+        CHECK (status IN ('running', 'interrupted', 'completed', 'failed'));
+
+      DROP INDEX IF EXISTS idx_sync_runs_unfinished;
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_unfinished
+        ON sync_runs(started_at DESC) WHERE status IN ('running', 'interrupted');
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_sync_runs_unfinished;
+      CREATE INDEX IF NOT EXISTS idx_sync_runs_unfinished
+        ON sync_runs(started_at DESC) WHERE status <> 'completed';
+
+      UPDATE sync_runs SET status = 'interrupted' WHERE status = 'failed';
+      ALTER TABLE sync_runs DROP CONSTRAINT IF EXISTS sync_runs_status_check;
+      ALTER TABLE sync_runs ADD CONSTRAINT sync_runs_status_check
+        CHECK (status IN ('running', 'interrupted', 'completed'));
+
+      ALTER TABLE sync_runs DROP COLUMN IF EXISTS listing_complete;
+    `,
+  },
+];
+
+/**
+ * Compute migration checksum
+ */
+export function computeChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.trim()).digest('hex');
+}
+
+/**
+ * Applied migration row
+ */
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Migration Runner class
+ */
+export class MigrationRunner implements IMigrationRunner {
+  private migrations: Migration[];
+
+  constructor(
+    private pool: IConnectionPool,
+    migrations: Migration[] = MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply all pending migrations
+   */
+  public async up(): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+      this.verifyChecksums(applied);
+
+      const pending = this.migrations.filter(m => !applied.has(m.version));
+
+      if (pending.length === 0) {
+        logger.info('Database schema is up to date');
+        return [];
+      }
+
+      for (const migration of pending) {
+        await this.runInTransaction(client, migration, 'up', async () => {
+          await client.query(
+            `INSERT INTO schema_migrations (version, name, checksum, applied_at)
+             VALUES ($1, $2, $3, NOW())`,
+            [migration.version, migration.name, computeChecksum(migration)]
+          );
+        });
+      }
+
+      logger.info(`Applied ${pending.length} migration(s)`, {
+        versions: pending.map(m => m.version),
+      });
+
+      return pending;
+    });
+  }
+
+  /**
+   * Roll back the most recently applied migrations
+   */
+  public async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+
+      const versions = Array.from(applied.keys())
+        .sort((a, b) => b - a)
+        .slice(0, steps);
+
+      const rolledBack: Migration[] = [];
+
+      for (const version of versions) {
+        const migration = this.migrations.find(m => m.version === version);
+
+        if (!migration) {
+          throw new MigrationError(
+            `Cannot roll back unknown migration version ${version}`,
+            undefined,
+            { version }
+          );
+        }
+
+        await this.runInTransaction(client, migration, 'down', async () => {
+          await client.query(
+            'DELETE FROM schema_migrations WHERE version = $1',
+            [migration.version]
+          );
+        });
+
+        rolledBack.push(migration);
+      }
+
+      logger.info(`Rolled back ${rolledBack.length} migration(s)`, {
+        versions: rolledBack.map(m => m.version),
+      });
+
+      return rolledBack;
+    });
+  }
+
+  /**
+   * Get status of every known migration
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const client = await this.pool.getClient();
+
+    try {
+      await this.ensureMigrationsTable(client);
+      const applied = await this.getApplied(client);
+
+      return this.migrations.map((migration) => {
+        const checksum = computeChecksum(migration);
+        const row = applied.get(migration.version);
+
+        let state: MigrationStatus['state'] = 'pending';
+        if (row) {
+          state = row.checksum === checksum ? 'applied' : 'modified';
+        }
+
+        return {
+          version: migration.version,
+          name: migration.name,
+          checksum,
+          state,
+          appliedAt: row ? new Date(row.applied_at) : null,
+        };
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run callback while holding the migration advisory lock
+   */
+  private async withLock<T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.getClient();
+
+    try {
+      const result = await client.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock($1) AS locked',
+        [MIGRATION_LOCK_KEY]
+      );
+
+      if (!result.rows[0].locked) {
+        logger.info('Waiting for another process to finish migrating...');
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      }
+
+      try {
+        await this.ensureMigrationsTable(client);
+        return await fn(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } catch (error) {
+      if (error instanceof MigrationError) {
+        throw error;
+      }
+
+      logger.error('Migration failed', error as Error);
+      throw new MigrationError(
+        `Migration failed: ${(error as Error).message}`,
+        error as Error
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run a migration step in its own transaction
+   */
+  private async runInTransaction(
+    client: PoolClient,
+    migration: Migration,
+    direction: 'up' | 'down',
+    record: () => Promise<void>
+  ): Promise<void> {
+    logger.info(`Migrating ${direction}: ${migration.version}_${migration.name}`);
+
+    try {
+      await client.query('BEGIN');
+      await client.query(migration[direction]);
+      await record();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      throw new MigrationError(
+        `Migration ${migration.version}_${migration.name} (${direction}) failed: ${(error as Error).message}`,
+        error as Error,
+        { version: migration.version, direction }
+      );
+    }
+  }
+
+  /**
+   * Create the schema_migrations table if needed
+   */
+  private async ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  /**
+   * Get applied migrations keyed by version
+   */
+  private async getApplied(
+    client: PoolClient
+  ): Promise<Map<number, AppliedMigration>> {
+    const result = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+
+    return new Map(result.rows.map(row => [Number(row.version), row]));
+  }
+
+  /**
+   * Ensure applied migrations have not been edited since they ran
+   */
+  private verifyChecksums(applied: Map<number, AppliedMigration>): void {
+    for (const [version, row] of applied) {
+      const migration = this.migrations.find(m => m.version === version);
+
+      if (!migration) {
+        logger.warn(`Applied migration ${version}_${row.name} is unknown to this build`);
+        continue;
+      }
+
+      if (computeChecksum(migration) !== row.checksum) {
+        throw new MigrationError(
+          `Checksum mismatch for applied migration ${version}_${migration.name}`,
+          undefined,
+          { version, expected: row.checksum }
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Create migration runner instance
+ */
+export function createMigrationRunner(
+  pool: IConnectionPool,
+  migrations?: Migration[]
+): MigrationRunner {
+  return new MigrationRunner(pool, migrations);
+}
\ No newline at end of file
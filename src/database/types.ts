@@ -3,7 +3,17 @@
  */
 
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
-import { Campaign, CampaignSyncData } from '../types';
+import {
+  Campaign,
+  CampaignRunState,
+  CampaignSyncData,
+  FailedCampaign,
+  RateLimitSlot,
+  ResumableRun,
+  SyncCheckpoint,
+  SyncMode,
+  SyncReport,
+} from '../types';
 
 /**
  * Database configuration
@@ -27,11 +37,184 @@ export interface ICampaignRepository {
   saveCampaigns(campaigns: Campaign[]): Promise<void>;
   getCampaign(id: string): Promise<CampaignSyncData | null>;
   getAllCampaigns(): Promise<CampaignSyncData[]>;
+  getContentHashes(): Promise<Map<string, string>>;
+  getSyncTimes(): Promise<Map<string, Date>>;
+  getActiveCampaignIds(): Promise<string[]>;
+  markDeleted(ids: string[]): Promise<number>;
   deleteCampaign(id: string): Promise<void>;
   clearAll(): Promise<void>;
   getCampaignCount(): Promise<number>;
 }
 
+/**
+ * Point-in-time campaign metrics snapshot
+ */
+export interface MetricsSnapshot {
+  campaignId: string;
+  status: Campaign['status'];
+  budget: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  capturedAt: Date;
+}
+
+/**
+ * End-of-day campaign metrics with change versus the previous day
+ * Deltas are null for the first day in the requested range
+ */
+export interface DailyMetricsDelta {
+  date: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  impressionsDelta: number | null;
+  clicksDelta: number | null;
+  conversionsDelta: number | null;
+}
+
+/**
+ * Time range filter (from inclusive, to exclusive)
+ */
+export interface TimeRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Metrics repository interface
+ */
+export interface IMetricsRepository {
+  recordSnapshot(campaign: Campaign, executor?: QueryExecutor): Promise<void>;
+  getTimeSeries(campaignId: string, range?: TimeRange): Promise<MetricsSnapshot[]>;
+  getDailyDeltas(campaignId: string, range?: TimeRange): Promise<DailyMetricsDelta[]>;
+}
+
+/**
+ * Sync run lifecycle status
+ */
+export type SyncRunStatus = 'running' | 'interrupted' | 'completed' | 'failed';
+
+/**
+ * Persisted sync run summary
+ */
+export interface SyncRunSummary {
+  runId: string;
+  mode: SyncMode;
+  status: SyncRunStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  totalCampaigns: number;
+  skippedCount: number;
+  successCount: number;
+  failureCount: number;
+  retryCount: number;
+  backoffMs: number;
+}
+
+/**
+ * Persisted per-campaign failure of a sync run
+ */
+export interface SyncRunFailure {
+  campaignId: string;
+  retries: number;
+  backoffMs: number;
+  attemptErrorCodes: string[];
+  durationMs: number;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Campaign that kept failing, awaiting inspection or replay
+ */
+export interface DeadLetter {
+  campaignId: string;
+  runId: string | null;
+  campaign: Campaign;
+  errorCode: string | null;
+  errorMessage: string | null;
+  failureCount: number;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+}
+
+/**
+ * Dead letter repository interface
+ */
+export interface IDeadLetterRepository {
+  addDeadLetters(runId: string, failures: FailedCampaign[]): Promise<void>;
+  listDeadLetters(limit?: number): Promise<DeadLetter[]>;
+  removeDeadLetters(campaignIds: string[]): Promise<number>;
+}
+
+/**
+ * Sync run repository interface
+ */
+export interface ISyncRunRepository {
+  startRun(runId: string, mode: SyncMode, startedAt: Date): Promise<void>;
+  addRunCampaigns(runId: string, campaigns: Campaign[]): Promise<void>;
+  markCampaign(runId: string, campaignId: string, state: CampaignRunState): Promise<void>;
+  markListingComplete(runId: string): Promise<void>;
+  getResumableRun(runId?: string): Promise<ResumableRun | null>;
+  saveRun(report: SyncReport): Promise<void>;
+  failRun(runId: string): Promise<void>;
+  getRun(runId: string): Promise<SyncRunSummary | null>;
+  listRecentRuns(limit?: number): Promise<SyncRunSummary[]>;
+  getRunFailures(runId: string): Promise<SyncRunFailure[]>;
+}
+
+/**
+ * Shared rate limit repository interface
+ */
+export interface IRateLimitRepository {
+  acquireSlot(key: string, maxRequests: number, windowMs: number): Promise<RateLimitSlot>;
+}
+
+/**
+ * Sync state repository interface
+ */
+export interface ISyncStateRepository {
+  getCheckpoint(name: string): Promise<SyncCheckpoint | null>;
+  saveCheckpoint(name: string, checkpoint: SyncCheckpoint): Promise<void>;
+}
+
+/**
+ * Versioned schema migration
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+/**
+ * Migration state as reported by the runner
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  checksum: string;
+  state: 'applied' | 'pending' | 'modified';
+  appliedAt: Date | null;
+}
+
+/**
+ * Migration runner interface
+ */
+export interface IMigrationRunner {
+  up(): Promise<Migration[]>;
+  down(steps?: number): Promise<Migration[]>;
+  status(): Promise<MigrationStatus[]>;
+}
+
+/**
+ * Runs queries: the pool, or a client holding an open transaction
+ */
+export type QueryExecutor = Pick<IConnectionPool, 'query'>;
+
 /**
  * Database connection pool interface
  */
@@ -0,0 +1,106 @@
+/**
+ * Campaign filter matching for subset syncs
+ */
+
+import { Campaign, CampaignFilter } from '../types';
+
+/**
+ * Check whether a filter restricts anything
+ */
+export function isFilterEmpty(filter?: CampaignFilter | null): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return (
+    !filter.statuses?.length &&
+    !filter.includeIds?.length &&
+    !filter.excludeIds?.length &&
+    !filter.createdAfter &&
+    !filter.createdBefore &&
+    !filter.namePattern
+  );
+}
+
+/**
+ * Campaign predicate for a filter
+ */
+export type FilterMatcher = (campaign: Campaign) => boolean;
+
+/**
+ * Build a predicate checking whether a campaign matches a filter
+ * The name pattern is compiled once, not per campaign
+ * created_at may be an API string or a database Date
+ */
+export function createFilterMatcher(filter: CampaignFilter): FilterMatcher {
+  const namePattern = filter.namePattern ? new RegExp(filter.namePattern, 'i') : null;
+
+  return campaign => matchesFilter(campaign, filter, namePattern);
+}
+
+/**
+ * Check whether a campaign matches a filter and its compiled name pattern
+ */
+function matchesFilter(
+  campaign: Campaign,
+  filter: CampaignFilter,
+  namePattern: RegExp | null
+): boolean {
+  if (filter.statuses?.length && !filter.statuses.includes(campaign.status)) {
+    return false;
+  }
+
+  if (filter.includeIds?.length && !filter.includeIds.includes(campaign.id)) {
+    return false;
+  }
+
+  if (filter.excludeIds?.includes(campaign.id)) {
+    return false;
+  }
+
+  if (filter.createdAfter || filter.createdBefore) {
+    const createdAt = new Date(campaign.created_at).getTime();
+
+    if (filter.createdAfter && createdAt < filter.createdAfter.getTime()) {
+      return false;
+    }
+
+    if (filter.createdBefore && createdAt >= filter.createdBefore.getTime()) {
+      return false;
+    }
+  }
+
+  if (namePattern && !namePattern.test(campaign.name)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Describe a filter in one line for logs and reports
+ */
+export function describeFilter(filter: CampaignFilter): string {
+  const parts: string[] = [];
+
+  if (filter.statuses?.length) {
+    parts.push(`status in (${filter.statuses.join(', ')})`);
+  }
+  if (filter.includeIds?.length) {
+    parts.push(`${filter.includeIds.length} IDs included`);
+  }
+  if (filter.excludeIds?.length) {
+    parts.push(`${filter.excludeIds.length} IDs excluded`);
+  }
+  if (filter.createdAfter) {
+    parts.push(`created >= ${filter.createdAfter.toISOString()}`);
+  }
+  if (filter.createdBefore) {
+    parts.push(`created < ${filter.createdBefore.toISOString()}`);
+  }
+  if (filter.namePattern) {
+    parts.push(`name ~ /${filter.namePattern}/i`);
+  }
+
+  return parts.length > 0 ? parts.join('; ') : 'none';
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Campaign prioritisation policies for sync scheduling
+ * Higher scores are synced first, so a run cut short has covered the
+ * most valuable campaigns
+ */
+
+import { Campaign, SyncPriority } from '../types';
+
+/**
+ * Prioritisation policy
+ */
+export interface PriorityPolicy {
+  name: SyncPriority;
+  /** Whether scoring needs each campaign's last sync time */
+  requiresSyncTimes: boolean;
+  score(campaign: Campaign, syncedAt: Date | null): number;
+}
+
+/**
+ * Status rank: active before paused before completed
+ */
+const STATUS_RANK: Record<Campaign['status'], number> = {
+  active: 2,
+  paused: 1,
+  completed: 0,
+};
+
+/**
+ * Keep upstream order
+ */
+export const noPriority: PriorityPolicy = {
+  name: 'none',
+  requiresSyncTimes: false,
+  score: () => 0,
+};
+
+/**
+ * Active campaigns first, completed ones last
+ */
+export const statusPriority: PriorityPolicy = {
+  name: 'status',
+  requiresSyncTimes: false,
+  score: campaign => STATUS_RANK[campaign.status] ?? 0,
+};
+
+/**
+ * Highest budget first
+ */
+export const budgetPriority: PriorityPolicy = {
+  name: 'budget',
+  requiresSyncTimes: false,
+  score: campaign => campaign.budget,
+};
+
+/**
+ * Stalest synced_at first; never-synced campaigns before all others
+ */
+export const stalenessPriority: PriorityPolicy = {
+  name: 'staleness',
+  requiresSyncTimes: true,
+  score: (_campaign, syncedAt) =>
+    syncedAt ? Date.now() - syncedAt.getTime() : Number.MAX_SAFE_INTEGER,
+};
+
+/**
+ * Get the built-in policy for a name
+ */
+export function getPriorityPolicy(name: SyncPriority): PriorityPolicy {
+  switch (name) {
+    case 'status':
+      return statusPriority;
+    case 'budget':
+      return budgetPriority;
+    case 'staleness':
+      return stalenessPriority;
+    default:
+      return noPriority;
+  }
+}
\ No newline at end of file
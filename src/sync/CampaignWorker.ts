@@ -2,10 +2,17 @@
  * Campaign worker for syncing individual campaigns
  */
 
-import { Campaign, SyncResult } from '../types';
+import { Campaign, RetryAttempt, SyncResult } from '../types';
 import { SyncWorkerDependencies } from './types';
 import { logger } from '../utils/Logger';
 
+/**
+ * Total time spent waiting between attempts
+ */
+function sumBackoff(attempts: RetryAttempt[]): number {
+  return attempts.reduce((sum, attempt) => sum + attempt.delayMs, 0);
+}
+
 /**
  * Campaign Worker class
  */
@@ -14,10 +21,11 @@ export class CampaignWorker {
 
   /**
    * Sync single campaign
+   * Retried API attempts are recorded so reports show where time went
    */
-  public async syncCampaign(campaign: Campaign): Promise<SyncResult> {
+  public async syncCampaign(campaign: Campaign, signal?: AbortSignal): Promise<SyncResult> {
     const startTime = Date.now();
-    let retries = 0;
+    const attempts: RetryAttempt[] = [];
 
     const campaignLogger = logger.child({
       campaignId: campaign.id,
@@ -28,7 +36,7 @@ export class CampaignWorker {
       campaignLogger.debug('Starting campaign sync');
 
       // Sync campaign via API
-      await this.deps.syncCampaignFn(campaign.id);
+      await this.deps.syncCampaignFn(campaign.id, attempt => attempts.push(attempt), signal);
 
       // Save campaign to database
       await this.deps.saveCampaignFn(campaign);
@@ -37,12 +45,15 @@ export class CampaignWorker {
 
       campaignLogger.info('Campaign synced successfully', {
         duration: `${duration}ms`,
+        retries: attempts.length,
       });
 
       return {
         campaignId: campaign.id,
         success: true,
-        retries,
+        retries: attempts.length,
+        attempts,
+        backoffMs: sumBackoff(attempts),
         duration,
       };
     } catch (error) {
@@ -50,13 +61,16 @@ export class CampaignWorker {
 
       campaignLogger.error('Campaign sync failed', error as Error, {
         duration: `${duration}ms`,
+        retries: attempts.length,
       });
 
       return {
         campaignId: campaign.id,
         success: false,
         error: error as Error,
-        retries,
+        retries: attempts.length,
+        attempts,
+        backoffMs: sumBackoff(attempts),
         duration,
       };
     }
@@ -3,15 +3,25 @@
  */
 
 import { QueueTask, QueueStats } from '../types';
+import { QueueClosedError, getAbortError } from '../utils/ErrorHandler';
 import { logger } from '../utils/Logger';
 import { generateId } from '../utils/helpers';
 
+/**
+ * Queued task that can be rejected without running
+ */
+interface PendingTask<T> extends QueueTask<T> {
+  cancel: (error: Error) => void;
+}
+
 /**
  * Concurrency Queue class
  */
 export class ConcurrencyQueue<T> {
-  private queue: Array<QueueTask<T>> = [];
+  private queue: Array<PendingTask<T>> = [];
   private active = 0;
+  private closed = false;
+  private capacityWaiters: Array<() => void> = [];
   private stats: QueueStats = {
     pending: 0,
     active: 0,
@@ -27,11 +37,21 @@ export class ConcurrencyQueue<T> {
 
   /**
    * Add task to queue
+   * A task still waiting when the signal aborts is rejected without running
    */
   public async add(
     task: () => Promise<T>,
-    priority = 0
+    priority = 0,
+    signal?: AbortSignal
   ): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new QueueClosedError());
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(getAbortError(signal));
+    }
+
     const queueTask: QueueTask<T> = {
       id: generateId('task'),
       execute: task,
@@ -39,9 +59,25 @@ export class ConcurrencyQueue<T> {
     };
 
     return new Promise((resolve, reject) => {
-      const wrappedTask: QueueTask<T> = {
+      const onAbort = () => {
+        const index = this.queue.indexOf(wrappedTask);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          this.stats.pending = this.queue.length;
+          this.notifyCapacity();
+          reject(getAbortError(signal!));
+        }
+      };
+
+      const wrappedTask: PendingTask<T> = {
         ...queueTask,
+        cancel: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
         execute: async () => {
+          signal?.removeEventListener('abort', onAbort);
+
           try {
             const result = await queueTask.execute();
             this.stats.completed++;
@@ -59,6 +95,8 @@ export class ConcurrencyQueue<T> {
         },
       };
 
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       this.queue.push(wrappedTask);
       this.sortQueue();
       this.stats.pending = this.queue.length;
@@ -89,7 +127,7 @@ export class ConcurrencyQueue<T> {
    */
   private processNext(): void {
     // Check if we can process more tasks
-    if (this.active >= this.maxConcurrent || this.queue.length === 0) {
+    if (this.closed || this.active >= this.maxConcurrent || this.queue.length === 0) {
       return;
     }
 
@@ -100,6 +138,8 @@ export class ConcurrencyQueue<T> {
       return;
     }
 
+    this.notifyCapacity();
+
     // Increment active count
     this.active++;
     this.stats.active = this.active;
@@ -166,12 +206,76 @@ export class ConcurrencyQueue<T> {
     }
   }
 
+  /**
+   * Stop starting tasks: queued tasks are rejected with QueueClosedError,
+   * active tasks keep running
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    const cancelled = this.queue;
+    this.queue = [];
+    this.stats.pending = 0;
+
+    cancelled.forEach(task => task.cancel(new QueueClosedError()));
+    this.notifyCapacity();
+
+    logger.debug('Queue closed', {
+      cancelled: cancelled.length,
+      active: this.active,
+    });
+  }
+
+  /**
+   * Wait until fewer than maxPending tasks are waiting to start
+   * Lets producers pause instead of buffering unbounded work
+   */
+  public async waitForCapacity(maxPending: number): Promise<void> {
+    while (!this.closed && this.queue.length >= maxPending) {
+      await new Promise<void>(resolve => this.capacityWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Wake producers waiting for capacity
+   */
+  private notifyCapacity(): void {
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Check if queue is closed to new tasks
+   */
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Wait for active tasks to finish, up to a deadline
+   * Resolves true if the queue drained in time
+   */
+  public async drain(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (this.active > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    return this.active === 0;
+  }
+
   /**
    * Clear the queue
    */
   public clear(): void {
     this.queue = [];
     this.stats.pending = 0;
+    this.notifyCapacity();
     logger.debug('Queue cleared');
   }
 }
@@ -2,12 +2,148 @@
  * Sync orchestrator for coordinating the entire sync process
  */
 
-import { Campaign, SyncResult, SyncReport } from '../types';
-import { SyncOrchestratorDependencies, SyncProgressCallback } from './types';
+import {
+  Campaign,
+  CampaignFilter,
+  CircuitTransition,
+  DeletionSummary,
+  ResumableRun,
+  SyncMode,
+  SyncResult,
+  SyncReport,
+} from '../types';
+import {
+  SyncOrchestratorDependencies,
+  SyncPlan,
+  SyncProgressCallback,
+} from './types';
 import { CampaignWorker, createCampaignWorker } from './CampaignWorker';
 import { ConcurrencyQueue, createConcurrencyQueue } from './ConcurrencyQueue';
+import { buildSyncPlan } from './SyncPlan';
+import {
+  FilterMatcher,
+  createFilterMatcher,
+  describeFilter,
+  isFilterEmpty,
+} from './CampaignFilter';
+import { PriorityPolicy, noPriority } from './CampaignPriority';
 import { logger } from '../utils/Logger';
-import { formatDuration, createProgressBar } from '../utils/helpers';
+import { CancelledError, ConfigError } from '../utils/ErrorHandler';
+import { DEFAULT_SHUTDOWN_TIMEOUT_MS } from '../utils/Shutdown';
+import {
+  formatDuration,
+  createProgressBar,
+  computeCampaignHash,
+  generateId,
+} from '../utils/helpers';
+
+/**
+ * Campaigns selected for syncing during one run and their outcomes so far
+ */
+interface SyncTracker {
+  runId: string;
+  progressCallback?: SyncProgressCallback;
+  total: number;
+  successCount: number;
+  failedCount: number;
+  results: SyncResult[];
+  pending: Array<Promise<SyncResult>>;
+  syncTimes: Map<string, Date>;
+  failed: Map<string, Campaign>;
+}
+
+/**
+ * Summarise retried attempts by error code, most frequent first
+ */
+function describeRetriedErrors(results: SyncResult[]): string {
+  const counts = new Map<string, number>();
+
+  results.forEach(result => {
+    result.attempts.forEach(attempt => {
+      const code = attempt.errorCode ?? 'UNKNOWN';
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([code, count]) => `${code} x${count}`)
+    .join(', ');
+}
+
+/**
+ * Combine a re-queued attempt with the campaign's earlier outcome
+ */
+function combineResults(previous: SyncResult, next: SyncResult): SyncResult {
+  return {
+    ...next,
+    retries: previous.retries + next.retries,
+    attempts: [...previous.attempts, ...next.attempts],
+    backoffMs: previous.backoffMs + next.backoffMs,
+    duration: previous.duration + next.duration,
+  };
+}
+
+/**
+ * Resolve how stored campaigns missing upstream are removed under the deletion policy
+ * Throws when the policy's removal function is missing, so a misconfigured
+ * orchestrator fails before syncing rather than after the whole run
+ */
+function resolveRemoval(
+  deps: SyncOrchestratorDependencies
+): ((ids: string[]) => Promise<number>) | null {
+  const { deletionPolicy, markDeletedFn, deleteCampaignFn } = deps;
+
+  switch (deletionPolicy ?? 'ignore') {
+    case 'ignore':
+      return null;
+    case 'mark':
+      if (!markDeletedFn) {
+        throw new ConfigError('Deletion policy "mark" requires markDeletedFn');
+      }
+      return markDeletedFn;
+    case 'delete':
+      if (!deleteCampaignFn) {
+        throw new ConfigError('Deletion policy "delete" requires deleteCampaignFn');
+      }
+      return async (ids) => {
+        for (const id of ids) {
+          await deleteCampaignFn(id);
+        }
+        return ids.length;
+      };
+  }
+}
+
+/**
+ * Outcome of streaming the upstream listing into a run
+ */
+interface RunListing {
+  upstreamIds: string[];
+  filteredOutCount: number;
+  skippedCount: number;
+  complete: boolean;
+}
+
+/**
+ * Inputs of a sync report
+ */
+interface ReportInput {
+  runId: string;
+  mode: SyncMode;
+  startTime: Date;
+  endTime: Date;
+  totalCampaigns: number;
+  skippedCount: number;
+  completedCount: number;
+  filter: CampaignFilter | null;
+  filteredOutCount: number;
+  requeueCount: number;
+  deadLetterCount: number;
+  circuitTransitions: CircuitTransition[];
+  deletions: DeletionSummary | null;
+  results: SyncResult[];
+}
 
 /**
  * Sync Orchestrator class
@@ -15,6 +151,17 @@ import { formatDuration, createProgressBar } from '../utils/helpers';
 export class SyncOrchestrator {
   private worker: CampaignWorker;
   private queue: ConcurrencyQueue<SyncResult>;
+  private filter: CampaignFilter | null;
+  private matchesFilter: FilterMatcher | null;
+  private priority: PriorityPolicy;
+  private stopRequested = false;
+  private resolveStopped!: () => void;
+  private stopped = new Promise<void>(resolve => {
+    this.resolveStopped = resolve;
+  });
+  private abortController = new AbortController();
+  private listingController = new AbortController();
+  private removeMissing: ((ids: string[]) => Promise<number>) | null;
 
   constructor(private deps: SyncOrchestratorDependencies) {
     this.worker = createCampaignWorker({
@@ -23,126 +170,836 @@ export class SyncOrchestrator {
     });
 
     this.queue = createConcurrencyQueue<SyncResult>(deps.maxConcurrent);
+    this.filter = isFilterEmpty(deps.filter) ? null : deps.filter!;
+    this.matchesFilter = this.filter ? createFilterMatcher(this.filter) : null;
+    this.priority = deps.priorityPolicy ?? noPriority;
+    this.removeMissing = resolveRemoval(deps);
+
+    // Cancelling the run also cancels the listing
+    this.abortController.signal.addEventListener(
+      'abort',
+      () => this.listingController.abort(this.abortController.signal.reason),
+      { once: true }
+    );
   }
 
   /**
    * Execute full sync process
+   * Campaigns are queued for syncing as pages arrive; fetching pauses
+   * while the queue is saturated. A priority policy needs the whole
+   * listing, so it queues once every page has arrived instead.
+   * Aborting the signal cancels the run
    */
   public async executeSync(
-    progressCallback?: SyncProgressCallback
+    progressCallback?: SyncProgressCallback,
+    signal?: AbortSignal
   ): Promise<SyncReport> {
     const startTime = new Date();
+    const runId = generateId('run');
+    this.linkSignal(signal);
 
     logger.info('━'.repeat(60));
-    logger.info('Starting campaign synchronization');
+    logger.info('Starting campaign synchronization', { runId });
     logger.info('━'.repeat(60));
 
+    const tracker = this.createTracker(runId, progressCallback);
+
     try {
-      // Fetch all campaigns
-      logger.info('Fetching campaigns from API...');
-      const campaigns = await this.deps.fetchAllCampaignsFn();
-      
-      logger.info(`✓ Fetched ${campaigns.length} campaigns`);
-      logger.info('');
-
-      // Sync campaigns with concurrency control
-      logger.info('Starting campaign sync...', {
-        total: campaigns.length,
+      const mode = await this.resolveMode();
+
+      // In incremental mode only new or changed campaigns are synced
+      const storedHashes = await this.loadContentHashes(mode);
+
+      tracker.syncTimes = await this.loadSyncTimes();
+
+      // Record the run so it can be resumed if interrupted
+      if (this.deps.startRunFn) {
+        await this.deps.startRunFn(runId, mode, startTime);
+      }
+
+      logger.info('Fetching campaigns and syncing as pages arrive...', {
         concurrency: this.deps.maxConcurrent,
+        priority: this.priority.name,
+        filter: this.filter ? describeFilter(this.filter) : undefined,
       });
 
-      const results = await this.syncCampaignsWithProgress(
-        campaigns,
-        progressCallback
-      );
+      const listing = await this.listRunCampaigns(runId, storedHashes, tracker);
+      const { upstreamIds, filteredOutCount, skippedCount } = listing;
+
+      logger.info(`✓ Fetched ${upstreamIds.length} campaigns`, {
+        toSync: tracker.total,
+        filteredOut: filteredOutCount,
+        unchanged: skippedCount,
+      });
+
+      await this.awaitTracked(tracker);
+      const requeueCount = await this.requeueFailures(tracker);
+
+      // Snapshot so campaigns finishing after the deadline don't alter the report
+      const results = [...tracker.results];
+      const deadLetterCount = await this.deadLetterFailures(tracker, results);
+
+      // Handle campaigns that disappeared from the complete upstream listing;
+      // a filtered run only covers a subset, so absence means nothing
+      const deletions = this.stopRequested || this.filter
+        ? null
+        : await this.reconcileDeletions(upstreamIds);
 
       // Generate report
       const endTime = new Date();
-      const report = this.generateReport(
+      const report = this.generateReport({
+        runId,
+        mode,
         startTime,
         endTime,
-        campaigns.length,
-        results
-      );
+        totalCampaigns: tracker.total,
+        skippedCount,
+        completedCount: 0,
+        filter: this.filter,
+        filteredOutCount,
+        requeueCount,
+        deadLetterCount,
+        circuitTransitions: this.getCircuitTransitions(startTime),
+        deletions,
+        results,
+      });
 
-      // Print report
-      this.printReport(report);
+      await this.finishRun(report);
+
+      // Advance the high-water mark only after a clean, complete, unfiltered run
+      const complete = !report.interrupted && !this.filter;
+      if (report.failureCount === 0 && complete && this.deps.saveCheckpointFn) {
+        await this.deps.saveCheckpointFn({
+          lastSyncedAt: startTime,
+          campaignCount: upstreamIds.length,
+        });
+      }
 
       return report;
     } catch (error) {
+      // Campaigns already queued may be mid-write; let them finish first
+      this.queue.close();
+      await this.drainInFlight();
+      await this.failRun(runId);
+
       logger.error('Sync process failed', error as Error);
       throw error;
     }
   }
 
   /**
-   * Sync campaigns with progress updates
+   * Resume an interrupted run, syncing only its pending and failed campaigns
+   * The upstream listing is re-fetched only when it was cut short, to pick up
+   * campaigns the run never recorded. Deletions are not reconciled and the
+   * checkpoint is left for the next complete run to advance. A resume that
+   * throws marks the run failed, like a fresh run
    */
-  private async syncCampaignsWithProgress(
-    campaigns: Campaign[],
-    progressCallback?: SyncProgressCallback
-  ): Promise<SyncResult[]> {
-    const results: SyncResult[] = [];
-    let successCount = 0;
-    let failedCount = 0;
-
-    // Add all campaigns to queue
-    const promises = campaigns.map((campaign) =>
-      this.queue.add(async () => {
-        const result = await this.worker.syncCampaign(campaign);
-        results.push(result);
-
-        if (result.success) {
-          successCount++;
-          logger.info(
-            `✓ Synced campaign ${result.campaignId} (${results.length}/${campaigns.length})`
-          );
-        } else {
-          failedCount++;
-          logger.warn(
-            `✗ Failed to sync campaign ${result.campaignId} (${results.length}/${campaigns.length})`,
-            { error: result.error?.message }
-          );
+  public async resumeSync(
+    run: ResumableRun,
+    progressCallback?: SyncProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SyncReport> {
+    const startTime = new Date();
+    this.linkSignal(signal);
+
+    logger.info('━'.repeat(60));
+    logger.info('Resuming campaign synchronization', {
+      runId: run.runId,
+      startedAt: run.startedAt.toISOString(),
+      remaining: run.campaigns.length,
+      completed: run.completedCount,
+      listingComplete: run.listingComplete,
+    });
+    logger.info('━'.repeat(60));
+
+    const tracker = this.createTracker(run.runId, progressCallback);
+
+    try {
+      tracker.syncTimes = await this.loadSyncTimes();
+      await this.enqueueCampaigns(run.campaigns, tracker);
+      const listing = run.listingComplete ? null : await this.relistRun(run, tracker);
+      await this.awaitTracked(tracker);
+      const requeueCount = await this.requeueFailures(tracker);
+
+      const results = [...tracker.results];
+      const deadLetterCount = await this.deadLetterFailures(tracker, results);
+
+      const report = this.generateReport({
+        runId: run.runId,
+        mode: run.mode,
+        startTime,
+        endTime: new Date(),
+        totalCampaigns: run.completedCount + tracker.total,
+        skippedCount: listing?.skippedCount ?? 0,
+        completedCount: run.completedCount,
+        filter: listing ? this.filter : null,
+        filteredOutCount: listing?.filteredOutCount ?? 0,
+        requeueCount,
+        deadLetterCount,
+        circuitTransitions: this.getCircuitTransitions(startTime),
+        deletions: null,
+        results,
+      });
+
+      await this.finishRun(report);
+
+      return report;
+    } catch (error) {
+      // As in a fresh run: let queued campaigns finish, then fail the run so
+      // the next start runs fresh instead of resuming into the same error
+      this.queue.close();
+      await this.drainInFlight();
+      await this.failRun(run.runId);
+
+      logger.error('Resumed sync process failed', error as Error, { runId: run.runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Request a graceful stop: no new campaigns are started, the upstream
+   * listing is aborted and in-flight campaigns get until the shutdown
+   * deadline to finish before a partial report is produced. The run stays
+   * resumable
+   */
+  public stop(): void {
+    if (this.stopRequested) {
+      return;
+    }
+
+    this.stopRequested = true;
+    this.queue.close();
+    this.listingController.abort(new CancelledError('Sync run stopped'));
+    this.resolveStopped();
+
+    logger.warn('Shutdown requested, waiting for in-flight campaigns', {
+      active: this.queue.getActiveCount(),
+      timeoutMs: this.getShutdownTimeout(),
+    });
+  }
+
+  /**
+   * Cancel the run: stop as above, and abort in-flight API requests so
+   * their campaigns fail fast instead of running to completion
+   */
+  public cancel(): void {
+    this.stop();
+    this.abortController.abort(new CancelledError('Sync run cancelled'));
+  }
+
+  /**
+   * Cancel the run when an external signal aborts
+   */
+  private linkSignal(signal?: AbortSignal): void {
+    if (!signal) {
+      return;
+    }
+
+    if (signal.aborted) {
+      this.cancel();
+    } else {
+      signal.addEventListener('abort', () => this.cancel(), { once: true });
+    }
+  }
+
+  /**
+   * Get the in-flight drain deadline
+   */
+  private getShutdownTimeout(): number {
+    return this.deps.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  }
+
+  /**
+   * Wait for in-flight campaigns after a stop request, up to the deadline,
+   * then abort whatever is still running
+   */
+  private async drainInFlight(): Promise<void> {
+    const drained = await this.queue.drain(this.getShutdownTimeout());
+
+    if (!drained) {
+      logger.warn('Shutdown deadline reached with campaigns still in flight', {
+        active: this.queue.getActiveCount(),
+      });
+      this.abortController.abort(new CancelledError('Shutdown deadline reached'));
+    }
+  }
+
+  /**
+   * Print and persist the final report of a run
+   */
+  private async finishRun(report: SyncReport): Promise<void> {
+    this.printReport(report);
+
+    // Persist report for later inspection
+    if (this.deps.saveReportFn) {
+      try {
+        await this.deps.saveReportFn(report);
+      } catch (error) {
+        logger.error('Failed to persist sync report', error as Error, {
+          runId: report.runId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Compute what a sync would do without syncing or saving anything
+   */
+  public async planSync(): Promise<SyncPlan> {
+    logger.info('Computing sync plan (dry run)...');
+
+    const mode = await this.resolveMode();
+    const upstream = this.applyFilter(await this.deps.fetchAllCampaignsFn());
+    const stored = this.deps.getStoredCampaignsFn
+      ? this.applyFilter(await this.deps.getStoredCampaignsFn())
+      : [];
+
+    const plan = buildSyncPlan(mode, upstream, stored);
+
+    logger.info('✓ Sync plan computed', {
+      inserts: plan.inserts.length,
+      updates: plan.updates.length,
+      unchanged: plan.unchanged.length,
+      missingUpstream: plan.missingUpstream.length,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Load stored content hashes for an incremental run
+   * Returns null, so every campaign is synced, in full mode
+   */
+  private async loadContentHashes(mode: SyncMode): Promise<Map<string, string> | null> {
+    if (mode !== 'incremental') {
+      return null;
+    }
+
+    if (!this.deps.getContentHashesFn) {
+      logger.warn('Content hashes not available, syncing every campaign');
+      return null;
+    }
+
+    return this.deps.getContentHashesFn();
+  }
+
+  /**
+   * Resolve the effective sync mode
+   * Incremental mode needs a stored checkpoint; the first run is always full
+   */
+  private async resolveMode(): Promise<SyncMode> {
+    if (this.deps.mode !== 'incremental') {
+      return 'full';
+    }
+
+    if (!this.deps.getContentHashesFn || !this.deps.getCheckpointFn) {
+      logger.warn('Incremental sync not configured, falling back to full sync');
+      return 'full';
+    }
+
+    const checkpoint = await this.deps.getCheckpointFn();
+
+    if (!checkpoint) {
+      logger.info('No sync checkpoint found, running full sync');
+      return 'full';
+    }
+
+    logger.info('Running incremental sync', {
+      lastSyncedAt: checkpoint.lastSyncedAt.toISOString(),
+      lastCampaignCount: checkpoint.campaignCount,
+    });
+
+    return 'incremental';
+  }
+
+  /**
+   * Stream the upstream listing into the run: each page is filtered, narrowed
+   * to changed campaigns in incremental mode, recorded and queued. Campaigns
+   * already recorded for the run are left out. With a priority policy the
+   * campaigns are held until the listing ends, so the order spans every page.
+   * A stop aborts the page fetch in progress and leaves the listing incomplete
+   */
+  private async listRunCampaigns(
+    runId: string,
+    storedHashes: Map<string, string> | null,
+    tracker: SyncTracker,
+    recordedIds: Set<string> = new Set()
+  ): Promise<RunListing> {
+    const listing: RunListing = {
+      upstreamIds: [],
+      filteredOutCount: 0,
+      skippedCount: 0,
+      complete: false,
+    };
+    const held: Campaign[] | null = this.priority.name === 'none' ? null : [];
+
+    try {
+      for await (const page of this.fetchPages()) {
+        if (this.stopRequested) {
+          return listing;
+        }
+
+        page.forEach(campaign => listing.upstreamIds.push(campaign.id));
+
+        const matching = this.applyFilter(page);
+        listing.filteredOutCount += page.length - matching.length;
+
+        const changed = storedHashes
+          ? this.selectChangedCampaigns(matching, storedHashes)
+          : matching;
+        listing.skippedCount += matching.length - changed.length;
+
+        const campaigns = changed.filter(campaign => !recordedIds.has(campaign.id));
+
+        if (campaigns.length > 0 && this.deps.addRunCampaignsFn) {
+          await this.deps.addRunCampaignsFn(runId, campaigns);
         }
 
-        // Progress callback
-        if (progressCallback) {
-          progressCallback({
-            completed: results.length,
-            total: campaigns.length,
-            current: campaign,
-            success: successCount,
-            failed: failedCount,
-          });
+        if (held) {
+          held.push(...campaigns);
+        } else {
+          await this.enqueueCampaigns(campaigns, tracker);
         }
+      }
+    } catch (error) {
+      // A stop aborts the page being fetched; the listing is just cut short
+      if (this.stopRequested) {
+        return listing;
+      }
+      throw error;
+    }
+
+    // Every page is recorded, so a resume no longer needs to re-list
+    listing.complete = true;
+    await this.markListingComplete(runId);
+
+    if (held) {
+      await this.enqueueCampaigns(held, tracker);
+    }
+
+    return listing;
+  }
 
-        // Print progress bar
-        const progressBar = createProgressBar(results.length, campaigns.length);
-        logger.info(progressBar);
+  /**
+   * Re-fetch the listing of a run that stopped before it was fully listed
+   */
+  private async relistRun(run: ResumableRun, tracker: SyncTracker): Promise<RunListing> {
+    logger.info('Listing was cut short, re-fetching campaigns the run never recorded');
 
-        return result;
-      })
+    const storedHashes = await this.loadContentHashes(run.mode);
+
+    return this.listRunCampaigns(run.runId, storedHashes, tracker, new Set(run.recordedIds));
+  }
+
+  /**
+   * Stream campaign pages, falling back to a single fetch of all campaigns
+   */
+  private async *fetchPages(): AsyncGenerator<Campaign[]> {
+    if (this.deps.streamCampaignsFn) {
+      yield* this.deps.streamCampaignsFn(this.listingController.signal);
+      return;
+    }
+
+    yield await this.deps.fetchAllCampaignsFn(this.listingController.signal);
+  }
+
+  /**
+   * Keep only campaigns matching the run's filter
+   */
+  private applyFilter<T extends Campaign>(campaigns: T[]): T[] {
+    const { matchesFilter } = this;
+
+    if (!matchesFilter) {
+      return campaigns;
+    }
+
+    return campaigns.filter(campaign => matchesFilter(campaign));
+  }
+
+  /**
+   * Select campaigns that are new or whose content changed since last sync
+   */
+  private selectChangedCampaigns(
+    campaigns: Campaign[],
+    storedHashes: Map<string, string>
+  ): Campaign[] {
+    return campaigns.filter(
+      campaign => storedHashes.get(campaign.id) !== computeCampaignHash(campaign)
     );
+  }
 
-    // Wait for all to complete
-    await Promise.allSettled(promises);
+  /**
+   * Apply the deletion policy to stored campaigns missing upstream
+   * Skipped when removals exceed the safety threshold, which usually means
+   * the upstream listing was incomplete rather than campaigns being deleted
+   */
+  private async reconcileDeletions(
+    fetchedIds: string[]
+  ): Promise<DeletionSummary | null> {
+    const policy = this.deps.deletionPolicy ?? 'ignore';
 
-    return results;
+    if (!this.removeMissing || !this.deps.getActiveCampaignIdsFn) {
+      return null;
+    }
+
+    const upstreamIds = new Set(fetchedIds);
+    const storedIds = await this.deps.getActiveCampaignIdsFn();
+    const missingIds = storedIds.filter(id => !upstreamIds.has(id));
+
+    const summary: DeletionSummary = {
+      policy,
+      missingIds,
+      removedCount: 0,
+      aborted: false,
+    };
+
+    if (missingIds.length === 0) {
+      return summary;
+    }
+
+    const maxPercent = this.deps.maxDeletionPercent ?? 100;
+    const percent = (missingIds.length / storedIds.length) * 100;
+
+    if (percent > maxPercent) {
+      logger.error('Upstream deletion threshold exceeded, skipping reconciliation', undefined, {
+        missing: missingIds.length,
+        stored: storedIds.length,
+        percent: Math.round(percent),
+        maxPercent,
+      });
+      return { ...summary, aborted: true };
+    }
+
+    summary.removedCount = await this.removeMissing(missingIds);
+
+    logger.info(`✓ Reconciled ${summary.removedCount} campaigns missing upstream`, {
+      policy,
+    });
+
+    return summary;
   }
 
   /**
-   * Generate sync report
+   * Create a tracker for the campaigns of one run
+   */
+  private createTracker(
+    runId: string,
+    progressCallback?: SyncProgressCallback
+  ): SyncTracker {
+    return {
+      runId,
+      progressCallback,
+      total: 0,
+      successCount: 0,
+      failedCount: 0,
+      results: [],
+      pending: [],
+      syncTimes: new Map(),
+      failed: new Map(),
+    };
+  }
+
+  /**
+   * Circuit breaker transitions since the run started
+   */
+  private getCircuitTransitions(since: Date): CircuitTransition[] {
+    return this.deps.getCircuitTransitionsFn ? this.deps.getCircuitTransitionsFn(since) : [];
+  }
+
+  /**
+   * Load last sync times when the priority policy needs them
+   */
+  private async loadSyncTimes(): Promise<Map<string, Date>> {
+    if (!this.priority.requiresSyncTimes || !this.deps.getSyncTimesFn) {
+      return new Map();
+    }
+
+    return this.deps.getSyncTimesFn();
+  }
+
+  /**
+   * Queue campaigns for syncing, highest priority first, waiting while
+   * the queue is saturated
    */
-  private generateReport(
-    startTime: Date,
-    endTime: Date,
-    totalCampaigns: number,
+  private async enqueueCampaigns(
+    campaigns: Campaign[],
+    tracker: SyncTracker
+  ): Promise<void> {
+    tracker.total += campaigns.length;
+
+    const prioritised = campaigns
+      .map(campaign => ({
+        campaign,
+        priority: this.priority.score(campaign, tracker.syncTimes.get(campaign.id) ?? null),
+      }))
+      .sort((a, b) => b.priority - a.priority);
+
+    for (const { campaign, priority } of prioritised) {
+      await this.queue.waitForCapacity(this.deps.maxConcurrent);
+
+      if (this.stopRequested) {
+        return;
+      }
+
+      tracker.pending.push(
+        this.queue.add(
+          () => this.syncTrackedCampaign(campaign, tracker),
+          priority,
+          this.abortController.signal
+        )
+      );
+    }
+  }
+
+  /**
+   * Sync a single campaign and report progress
+   */
+  private async syncTrackedCampaign(
+    campaign: Campaign,
+    tracker: SyncTracker
+  ): Promise<SyncResult> {
+    const { results } = tracker;
+    const outcome = await this.worker.syncCampaign(campaign, this.abortController.signal);
+
+    // A re-queued campaign replaces its earlier failed result
+    const previous = tracker.failed.has(campaign.id)
+      ? results.findIndex(r => r.campaignId === campaign.id)
+      : -1;
+    const result = previous === -1 ? outcome : combineResults(results[previous], outcome);
+
+    if (previous === -1) {
+      results.push(result);
+    } else {
+      results[previous] = result;
+      tracker.failedCount--;
+    }
+
+    await this.recordCampaignState(tracker.runId, result);
+
+    if (result.success) {
+      tracker.successCount++;
+      tracker.failed.delete(campaign.id);
+      logger.info(
+        `✓ Synced campaign ${result.campaignId} (${results.length}/${tracker.total})`
+      );
+    } else {
+      tracker.failedCount++;
+      tracker.failed.set(campaign.id, campaign);
+      logger.warn(
+        `✗ Failed to sync campaign ${result.campaignId} (${results.length}/${tracker.total})`,
+        { error: result.error?.message }
+      );
+    }
+
+    // Progress callback
+    if (tracker.progressCallback) {
+      tracker.progressCallback({
+        completed: results.length,
+        total: tracker.total,
+        current: campaign,
+        success: tracker.successCount,
+        failed: tracker.failedCount,
+      });
+    }
+
+    // Print progress bar
+    const progressBar = createProgressBar(results.length, tracker.total);
+    logger.info(progressBar);
+
+    return result;
+  }
+
+  /**
+   * Wait for queued campaigns, or for in-flight ones to drain on shutdown
+   */
+  private async awaitTracked(tracker: SyncTracker): Promise<void> {
+    await Promise.race([
+      Promise.allSettled(tracker.pending),
+      this.stopped.then(() => this.drainInFlight()),
+    ]);
+  }
+
+  /**
+   * Re-queue campaigns that failed despite API-level retries, backing off
+   * longer before each round. Returns the number of re-queued attempts
+   */
+  private async requeueFailures(tracker: SyncTracker): Promise<number> {
+    const rounds = this.deps.requeueAttempts ?? 0;
+    const baseDelay = this.deps.requeueDelayMs ?? 30000;
+    let requeueCount = 0;
+
+    for (let round = 0; round < rounds && tracker.failed.size > 0; round++) {
+      const delay = baseDelay * Math.pow(2, round);
+
+      logger.info(`Re-queueing ${tracker.failed.size} failed campaigns in ${delay}ms`, {
+        round: round + 1,
+        rounds,
+      });
+
+      if (!(await this.waitUnlessStopped(delay))) {
+        break;
+      }
+
+      const campaigns = Array.from(tracker.failed.values());
+      requeueCount += campaigns.length;
+
+      campaigns.forEach(campaign => {
+        tracker.pending.push(
+          this.queue.add(
+            () => this.syncTrackedCampaign(campaign, tracker),
+            0,
+            this.abortController.signal
+          )
+        );
+      });
+
+      await this.awaitTracked(tracker);
+    }
+
+    return requeueCount;
+  }
+
+  /**
+   * Wait for a delay; resolves false early if a stop is requested
+   */
+  private async waitUnlessStopped(ms: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+
+    await Promise.race([
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, ms);
+      }),
+      this.stopped,
+    ]);
+    clearTimeout(timer);
+
+    return !this.stopRequested;
+  }
+
+  /**
+   * Dead-letter campaigns still failing at the end of a run, and clear
+   * earlier dead letters of campaigns that synced. Interrupted runs are
+   * left for resuming instead. Returns the number dead-lettered
+   */
+  private async deadLetterFailures(
+    tracker: SyncTracker,
     results: SyncResult[]
-  ): SyncReport {
+  ): Promise<number> {
+    if (this.stopRequested) {
+      return 0;
+    }
+
+    const failures = results
+      .filter(result => !result.success && tracker.failed.has(result.campaignId))
+      .map(result => ({ campaign: tracker.failed.get(result.campaignId)!, result }));
+    const succeededIds = results.filter(r => r.success).map(r => r.campaignId);
+
+    try {
+      if (failures.length > 0 && this.deps.deadLetterFn) {
+        await this.deps.deadLetterFn(tracker.runId, failures);
+        logger.warn(`☠ Dead-lettered ${failures.length} campaigns`, {
+          campaignIds: failures.map(f => f.campaign.id),
+        });
+      }
+
+      if (succeededIds.length > 0 && this.deps.clearDeadLettersFn) {
+        await this.deps.clearDeadLettersFn(succeededIds);
+      }
+    } catch (error) {
+      // Failures are still in the run report; the next run retries them
+      logger.error('Failed to update dead-lettered campaigns', error as Error, {
+        runId: tracker.runId,
+      });
+      return 0;
+    }
+
+    return this.deps.deadLetterFn ? failures.length : 0;
+  }
+
+  /**
+   * Record that the run's listing finished; failures only cost a re-list
+   */
+  private async markListingComplete(runId: string): Promise<void> {
+    if (!this.deps.markListingCompleteFn) {
+      return;
+    }
+
+    try {
+      await this.deps.markListingCompleteFn(runId);
+    } catch (error) {
+      logger.warn('Failed to record listing completion', {
+        runId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Mark a run that stopped on an error as failed, so it is not resumed
+   */
+  private async failRun(runId: string): Promise<void> {
+    if (!this.deps.failRunFn) {
+      return;
+    }
+
+    try {
+      await this.deps.failRunFn(runId);
+    } catch (error) {
+      logger.warn('Failed to mark sync run as failed', {
+        runId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Record campaign completion for resuming; failures only cost a re-sync
+   */
+  private async recordCampaignState(runId: string, result: SyncResult): Promise<void> {
+    if (!this.deps.markCampaignFn) {
+      return;
+    }
+
+    try {
+      await this.deps.markCampaignFn(
+        runId,
+        result.campaignId,
+        result.success ? 'succeeded' : 'failed'
+      );
+    } catch (error) {
+      logger.warn('Failed to record campaign state', {
+        runId,
+        campaignId: result.campaignId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Generate sync report
+   */
+  private generateReport(input: ReportInput): SyncReport {
+    const {
+      runId,
+      mode,
+      startTime,
+      endTime,
+      totalCampaigns,
+      skippedCount,
+      completedCount,
+      filter,
+      filteredOutCount,
+      requeueCount,
+      deadLetterCount,
+      circuitTransitions,
+      deletions,
+      results,
+    } = input;
     const duration = endTime.getTime() - startTime.getTime();
     const successCount = results.filter(r => r.success).length;
     const failureCount = results.filter(r => !r.success).length;
     const retryCount = results.reduce((sum, r) => sum + r.retries, 0);
+    const backoffMs = results.reduce((sum, r) => sum + r.backoffMs, 0);
 
     const failures = results
       .filter(r => !r.success)
@@ -152,13 +1009,25 @@ export class SyncOrchestrator {
       }));
 
     return {
+      runId,
+      mode,
       startTime,
       endTime,
       duration,
       totalCampaigns,
+      skippedCount,
+      completedCount,
+      filter,
+      filteredOutCount,
       successCount,
       failureCount,
       retryCount,
+      backoffMs,
+      requeueCount,
+      deadLetterCount,
+      circuitTransitions,
+      deletions,
+      interrupted: this.stopRequested,
       results,
       failures,
     };
@@ -172,11 +1041,49 @@ export class SyncOrchestrator {
     logger.info('━'.repeat(60));
     logger.info('📊 SYNC SUMMARY');
     logger.info('━'.repeat(60));
+    logger.info(`Run ID:               ${report.runId}`);
+    logger.info(`Sync mode:            ${report.mode}`);
+    if (report.filter) {
+      logger.info(`Filter:               ${describeFilter(report.filter)}`);
+      logger.info(`⊘ Filtered out:        ${report.filteredOutCount}`);
+    }
     logger.info(`Total campaigns:      ${report.totalCampaigns}`);
+    logger.info(`↷ Unchanged skipped:   ${report.skippedCount}`);
+    if (report.completedCount > 0) {
+      logger.info(`✓ Completed earlier:   ${report.completedCount}`);
+    }
     logger.info(`✓ Successfully synced: ${report.successCount}`);
     logger.info(`✗ Failed:              ${report.failureCount}`);
     logger.info(`⚠ Retries required:    ${report.retryCount}`);
+    if (report.retryCount > 0) {
+      logger.info(`⏳ Retry backoff:       ${formatDuration(report.backoffMs)}`);
+      logger.info(`  Retried errors:      ${describeRetriedErrors(report.results)}`);
+    }
+    if (report.requeueCount > 0) {
+      logger.info(`↻ Re-queued attempts:  ${report.requeueCount}`);
+    }
+    if (report.deadLetterCount > 0) {
+      logger.warn(`☠ Dead-lettered:       ${report.deadLetterCount}`);
+    }
+    if (report.circuitTransitions.length > 0) {
+      logger.info(`⚡ Circuit breaker:     ${report.circuitTransitions.length} transitions`);
+      report.circuitTransitions.forEach(t => {
+        logger.info(`  ${t.at.toISOString()} ${t.from} → ${t.to} (${t.reason})`);
+      });
+    }
+    if (report.deletions) {
+      const { missingIds, removedCount, policy, aborted } = report.deletions;
+      if (aborted) {
+        logger.warn(`🗑 Missing upstream:    ${missingIds.length}, threshold exceeded, skipped`);
+      } else {
+        logger.info(`🗑 Missing upstream:    ${missingIds.length}, ${removedCount} removed (${policy})`);
+      }
+    }
     logger.info(`⏱ Duration:            ${formatDuration(report.duration)}`);
+    if (report.interrupted) {
+      const notSynced = report.totalCampaigns - report.completedCount - report.results.length;
+      logger.warn(`⏸ Interrupted:         ${notSynced} campaigns not synced (resumable)`);
+    }
     logger.info('━'.repeat(60));
 
     if (report.failures.length > 0) {
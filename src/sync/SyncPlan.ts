@@ -0,0 +1,187 @@
+/**
+ * Sync plan computation and rendering for dry runs
+ * - Diffs upstream campaigns against stored rows
+ * - Renders the plan as text or JSON
+ */
+
+import { Campaign, CampaignSyncData, SyncMode } from '../types';
+import { FieldChange, SyncPlan } from './types';
+
+/**
+ * Campaign fields compared between upstream and database
+ */
+const COMPARED_FIELDS: Array<keyof Campaign> = [
+  'name',
+  'status',
+  'budget',
+  'impressions',
+  'clicks',
+  'conversions',
+  'created_at',
+];
+
+/**
+ * Normalize a timestamp from the API (ISO string) or database (TIMESTAMP as Date)
+ * TIMESTAMP columns have no zone, so their wall-clock time is read as UTC
+ */
+function normalizeTimestamp(value: unknown): string {
+  if (value instanceof Date) {
+    return new Date(Date.UTC(
+      value.getFullYear(),
+      value.getMonth(),
+      value.getDate(),
+      value.getHours(),
+      value.getMinutes(),
+      value.getSeconds(),
+      value.getMilliseconds()
+    )).toISOString();
+  }
+
+  return new Date(String(value)).toISOString();
+}
+
+/**
+ * Normalize a field value so database and API representations compare equal
+ */
+function normalizeField(field: keyof Campaign, value: unknown): unknown {
+  switch (field) {
+    case 'budget':
+    case 'impressions':
+    case 'clicks':
+    case 'conversions':
+      return Number(value);
+    case 'created_at':
+      return normalizeTimestamp(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compute field-level differences between a stored row and an upstream campaign
+ */
+export function diffCampaign(
+  stored: CampaignSyncData,
+  upstream: Campaign
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of COMPARED_FIELDS) {
+    const from = normalizeField(field, stored[field]);
+    const to = normalizeField(field, upstream[field]);
+
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Build a sync plan from upstream campaigns and stored rows
+ */
+export function buildSyncPlan(
+  mode: SyncMode,
+  upstream: Campaign[],
+  stored: CampaignSyncData[]
+): SyncPlan {
+  // Soft-deleted rows count as absent; campaigns reappearing upstream are re-inserted
+  const active = stored.filter(row => !row.deleted_at);
+  const storedById = new Map(active.map(row => [row.id, row]));
+  const upstreamIds = new Set(upstream.map(campaign => campaign.id));
+
+  const plan: SyncPlan = {
+    mode,
+    generatedAt: new Date(),
+    fetchedCount: upstream.length,
+    toSyncCount: 0,
+    inserts: [],
+    updates: [],
+    unchanged: [],
+    missingUpstream: [],
+  };
+
+  for (const campaign of upstream) {
+    const row = storedById.get(campaign.id);
+
+    if (!row) {
+      plan.inserts.push(campaign);
+      continue;
+    }
+
+    const changes = diffCampaign(row, campaign);
+
+    if (changes.length > 0) {
+      plan.updates.push({ campaign, changes });
+    } else {
+      plan.unchanged.push(campaign.id);
+    }
+  }
+
+  for (const row of active) {
+    if (!upstreamIds.has(row.id)) {
+      plan.missingUpstream.push({
+        id: row.id,
+        name: row.name,
+        syncedAt: row.synced_at,
+      });
+    }
+  }
+
+  // Full syncs touch every upstream campaign; incremental only new or changed ones
+  plan.toSyncCount = mode === 'full'
+    ? upstream.length
+    : plan.inserts.length + plan.updates.length;
+
+  return plan;
+}
+
+/**
+ * Format a field value for text output
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * Render a sync plan as text or JSON
+ */
+export function formatSyncPlan(plan: SyncPlan, format: 'text' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(plan, null, 2);
+  }
+
+  const lines: string[] = [
+    `Sync plan (${plan.mode}): ${plan.fetchedCount} fetched, ${plan.toSyncCount} would be synced`,
+    `  + ${plan.inserts.length} to insert`,
+    `  ~ ${plan.updates.length} to update`,
+    `  = ${plan.unchanged.length} unchanged`,
+    `  - ${plan.missingUpstream.length} missing upstream`,
+  ];
+
+  if (plan.inserts.length > 0) {
+    lines.push('', 'Inserts:');
+    plan.inserts.forEach(c => lines.push(`  + ${c.id}  ${c.name} (${c.status})`));
+  }
+
+  if (plan.updates.length > 0) {
+    lines.push('', 'Updates:');
+    plan.updates.forEach(({ campaign, changes }) => {
+      lines.push(`  ~ ${campaign.id}  ${campaign.name}`);
+      changes.forEach(change => {
+        lines.push(`      ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+      });
+    });
+  }
+
+  if (plan.missingUpstream.length > 0) {
+    lines.push('', 'Missing upstream:');
+    plan.missingUpstream.forEach(c => {
+      const syncedAt = c.syncedAt ? ` (last synced ${new Date(c.syncedAt).toISOString()})` : '';
+      lines.push(`  - ${c.id}  ${c.name}${syncedAt}`);
+    });
+  }
+
+  return lines.join('\n');
+}
\ No newline at end of file
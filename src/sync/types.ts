@@ -2,13 +2,30 @@
  * Sync module type definitions
  */
 
-import { Campaign } from '../types';
+import {
+  Campaign,
+  CampaignFilter,
+  CampaignRunState,
+  CampaignSyncData,
+  CircuitTransition,
+  DeletionPolicy,
+  FailedCampaign,
+  RetryAttempt,
+  SyncCheckpoint,
+  SyncMode,
+  SyncReport,
+} from '../types';
+import { PriorityPolicy } from './CampaignPriority';
 
 /**
  * Sync worker dependencies
  */
 export interface SyncWorkerDependencies {
-  syncCampaignFn: (campaignId: string) => Promise<void>;
+  syncCampaignFn: (
+    campaignId: string,
+    onRetry?: (attempt: RetryAttempt) => void,
+    signal?: AbortSignal
+  ) => Promise<void>;
   saveCampaignFn: (campaign: Campaign) => Promise<void>;
 }
 
@@ -16,10 +33,74 @@ export interface SyncWorkerDependencies {
  * Sync orchestrator dependencies
  */
 export interface SyncOrchestratorDependencies {
-  fetchAllCampaignsFn: () => Promise<Campaign[]>;
-  syncCampaignFn: (campaignId: string) => Promise<void>;
+  fetchAllCampaignsFn: (signal?: AbortSignal) => Promise<Campaign[]>;
+  streamCampaignsFn?: (signal?: AbortSignal) => AsyncIterable<Campaign[]>;
+  syncCampaignFn: (
+    campaignId: string,
+    onRetry?: (attempt: RetryAttempt) => void,
+    signal?: AbortSignal
+  ) => Promise<void>;
   saveCampaignFn: (campaign: Campaign) => Promise<void>;
   maxConcurrent: number;
+  shutdownTimeoutMs?: number;
+  requeueAttempts?: number;
+  requeueDelayMs?: number;
+  filter?: CampaignFilter;
+  mode?: SyncMode;
+  getContentHashesFn?: () => Promise<Map<string, string>>;
+  getCheckpointFn?: () => Promise<SyncCheckpoint | null>;
+  saveCheckpointFn?: (checkpoint: SyncCheckpoint) => Promise<void>;
+  saveReportFn?: (report: SyncReport) => Promise<void>;
+  getStoredCampaignsFn?: () => Promise<CampaignSyncData[]>;
+  priorityPolicy?: PriorityPolicy;
+  getSyncTimesFn?: () => Promise<Map<string, Date>>;
+  deletionPolicy?: DeletionPolicy;
+  maxDeletionPercent?: number;
+  getActiveCampaignIdsFn?: () => Promise<string[]>;
+  markDeletedFn?: (ids: string[]) => Promise<number>;
+  deleteCampaignFn?: (id: string) => Promise<void>;
+  startRunFn?: (runId: string, mode: SyncMode, startedAt: Date) => Promise<void>;
+  addRunCampaignsFn?: (runId: string, campaigns: Campaign[]) => Promise<void>;
+  markListingCompleteFn?: (runId: string) => Promise<void>;
+  markCampaignFn?: (
+    runId: string,
+    campaignId: string,
+    state: CampaignRunState
+  ) => Promise<void>;
+  failRunFn?: (runId: string) => Promise<void>;
+  deadLetterFn?: (runId: string, failures: FailedCampaign[]) => Promise<void>;
+  clearDeadLettersFn?: (campaignIds: string[]) => Promise<number>;
+  getCircuitTransitionsFn?: (since: Date) => CircuitTransition[];
+}
+
+/**
+ * Single field difference between stored and upstream campaign
+ */
+export interface FieldChange {
+  field: keyof Campaign;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Sync plan computed by a dry run
+ */
+export interface SyncPlan {
+  mode: SyncMode;
+  generatedAt: Date;
+  fetchedCount: number;
+  toSyncCount: number;
+  inserts: Campaign[];
+  updates: Array<{
+    campaign: Campaign;
+    changes: FieldChange[];
+  }>;
+  unchanged: string[];
+  missingUpstream: Array<{
+    id: string;
+    name: string;
+    syncedAt?: Date;
+  }>;
 }
 
 /**
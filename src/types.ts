@@ -19,8 +19,11 @@ export interface Campaign {
 
 export interface CampaignSyncData extends Campaign {
   synced_at?: Date;
+  deleted_at?: Date | null;
 }
 
+export const CAMPAIGN_STATUSES: Array<Campaign['status']> = ['active', 'paused', 'completed'];
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -31,13 +34,17 @@ export interface AuthResponse {
   expires_in: number;
 }
 
+export type PaginationStyle = 'page' | 'cursor';
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
-    page: number;
+    page?: number;
     per_page: number;
-    total: number;
+    total?: number;
     has_more: boolean;
+    next_cursor?: string | null;
+    next?: string | null;
   };
 }
 
@@ -88,16 +95,35 @@ export interface Config {
   sync: {
     maxConcurrent: number;
     pageSize: number;
+    fetchConcurrency: number;
+    pageRetries: number;
+    mode: SyncMode;
+    deletionPolicy: DeletionPolicy;
+    maxDeletionPercent: number;
+    shutdownTimeout: number;
+    requeueAttempts: number;
+    requeueDelay: number;
+    filter: CampaignFilter;
+    priority: SyncPriority;
   };
-  retry: {
-    maxAttempts: number;
-    baseDelay: number;
-    jitter: number;
-    maxDelay: number;
-  };
+  retry: RetryConfig;
   rateLimit: {
     maxRequests: number;
     windowMs: number;
+    algorithm: RateLimitAlgorithm;
+    endpoints: EndpointRateLimit[];
+    backend: RateLimitBackend;
+    /** Prefix of the shared limiter keys; processes using the same key share quota */
+    key: string;
+  };
+  circuitBreaker: {
+    failureThreshold: number;
+    resetTimeout: number;
+  };
+  retryBudget: {
+    percent: number;
+    windowMs: number;
+    minRetries: number;
   };
   database: {
     host: string;
@@ -136,11 +162,16 @@ export enum ErrorCode {
   DATABASE_ERROR = 'DATABASE_ERROR',
   CONNECTION_ERROR = 'CONNECTION_ERROR',
   QUERY_ERROR = 'QUERY_ERROR',
+  MIGRATION_ERROR = 'MIGRATION_ERROR',
   
   // Sync errors
   SYNC_FAILED = 'SYNC_FAILED',
   FETCH_FAILED = 'FETCH_FAILED',
   MAX_RETRIES_EXCEEDED = 'MAX_RETRIES_EXCEEDED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  RETRY_BUDGET_EXHAUSTED = 'RETRY_BUDGET_EXHAUSTED',
+  QUEUE_CLOSED = 'QUEUE_CLOSED',
+  CANCELLED = 'CANCELLED',
   
   // Validation errors
   VALIDATION_ERROR = 'VALIDATION_ERROR',
@@ -160,12 +191,37 @@ export interface ErrorDetails {
 // Retry Types
 // ============================================================================
 
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  jitter: number;
+  maxDelay: number;
+}
+
+export type RetryOperation = 'fetchPage' | 'syncCampaign' | 'auth';
+
+export interface RetryConfig extends RetryPolicy {
+  operations: Partial<Record<RetryOperation, RetryPolicy>>;
+}
+
 export interface RetryOptions {
   maxAttempts: number;
   baseDelay: number;
   jitter: number;
   maxDelay: number;
   retryableErrors: ErrorCode[];
+  onRetry?: (attempt: RetryAttempt) => void;
+  /** Asked before each retry; false stops retrying, e.g. on a spent budget */
+  acquireRetry?: () => boolean;
+  /** Stops further attempts and cuts the backoff short when aborted */
+  signal?: AbortSignal;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  errorCode: string | null;
+  errorMessage: string;
+  delayMs: number;
 }
 
 export interface RetryContext {
@@ -179,9 +235,30 @@ export interface RetryContext {
 // Rate Limiting Types
 // ============================================================================
 
-export interface RateLimitState {
-  requests: number[];
-  queue: QueuedRequest[];
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket';
+
+/** Where request slots are counted: this process, or shared through Postgres */
+export type RateLimitBackend = 'memory' | 'postgres';
+
+/**
+ * Outcome of claiming a shared request slot
+ */
+export interface RateLimitSlot {
+  acquired: boolean;
+  /** Slots left in the window after this claim */
+  remaining: number;
+  /** Milliseconds until a slot frees up when none was acquired */
+  retryAfterMs: number;
+}
+
+/**
+ * Rate limit for request paths matching a pattern
+ */
+export interface EndpointRateLimit {
+  pattern: string;
+  maxRequests: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
 }
 
 export interface QueuedRequest {
@@ -193,10 +270,66 @@ export interface QueuedRequest {
   timestamp: number;
 }
 
+// ============================================================================
+// Circuit Breaker Types
+// ============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  at: Date;
+  reason: string;
+}
+
 // ============================================================================
 // Sync Types
 // ============================================================================
 
+export type SyncMode = 'full' | 'incremental';
+
+export type DeletionPolicy = 'mark' | 'delete' | 'ignore';
+
+export type SyncPriority = 'none' | 'status' | 'budget' | 'staleness';
+
+export const SYNC_PRIORITIES: SyncPriority[] = ['none', 'status', 'budget', 'staleness'];
+
+export type CampaignRunState = 'pending' | 'succeeded' | 'failed';
+
+export interface SyncCheckpoint {
+  lastSyncedAt: Date;
+  campaignCount: number;
+}
+
+export interface CampaignFilter {
+  statuses?: Array<Campaign['status']>;
+  includeIds?: string[];
+  excludeIds?: string[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  namePattern?: string;
+}
+
+export interface DeletionSummary {
+  policy: DeletionPolicy;
+  missingIds: string[];
+  removedCount: number;
+  aborted: boolean;
+}
+
+export interface ResumableRun {
+  runId: string;
+  mode: SyncMode;
+  startedAt: Date;
+  campaigns: Campaign[];
+  completedCount: number;
+  /** Every campaign recorded for the run, synced or not */
+  recordedIds: string[];
+  /** Whether the upstream listing finished before the run stopped */
+  listingComplete: boolean;
+}
+
 export interface SyncJob {
   campaign: Campaign;
   retryCount: number;
@@ -208,17 +341,37 @@ export interface SyncResult {
   success: boolean;
   error?: Error;
   retries: number;
+  attempts: RetryAttempt[];
+  backoffMs: number;
   duration: number;
 }
 
+export interface FailedCampaign {
+  campaign: Campaign;
+  result: SyncResult;
+}
+
 export interface SyncReport {
+  runId: string;
+  mode: SyncMode;
   startTime: Date;
   endTime: Date;
   duration: number;
   totalCampaigns: number;
+  skippedCount: number;
+  /** Campaigns synced by earlier attempts of a resumed run */
+  completedCount: number;
+  filter: CampaignFilter | null;
+  filteredOutCount: number;
   successCount: number;
   failureCount: number;
   retryCount: number;
+  backoffMs: number;
+  requeueCount: number;
+  deadLetterCount: number;
+  circuitTransitions: CircuitTransition[];
+  deletions: DeletionSummary | null;
+  interrupted: boolean;
   results: SyncResult[];
   failures: Array<{
     campaignId: string;
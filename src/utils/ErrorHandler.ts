@@ -189,6 +189,28 @@ export class DatabaseError extends AppError {
   }
 }
 
+/**
+ * Schema migration errors
+ */
+export class MigrationError extends AppError {
+  constructor(
+    message: string,
+    originalError?: Error,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      {
+        code: ErrorCode.MIGRATION_ERROR,
+        message,
+        originalError,
+        context,
+      },
+      false
+    );
+    this.name = 'MigrationError';
+  }
+}
+
 /**
  * Sync operation errors
  */
@@ -230,6 +252,81 @@ export class MaxRetriesExceededError extends AppError {
   }
 }
 
+/**
+ * Request rejected without being sent because the circuit is open
+ */
+export class CircuitOpenError extends AppError {
+  constructor(retryAfter: number, message = 'Circuit breaker is open') {
+    super(
+      {
+        code: ErrorCode.CIRCUIT_OPEN,
+        message,
+        retryAfter,
+      },
+      false // Failing fast is the point; retrying would hammer the breaker
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Retry refused because the shared retry budget is spent
+ */
+export class RetryBudgetExhaustedError extends AppError {
+  constructor(attempts: number, lastError: Error) {
+    super(
+      {
+        code: ErrorCode.RETRY_BUDGET_EXHAUSTED,
+        message: `Retry budget exhausted after ${attempts} attempts: ${lastError.message}`,
+        originalError: lastError,
+        context: { attempts },
+      },
+      false
+    );
+    this.name = 'RetryBudgetExhaustedError';
+  }
+}
+
+/**
+ * Task submitted to or pending in a closed queue
+ */
+export class QueueClosedError extends AppError {
+  constructor(message = 'Queue is closed to new tasks') {
+    super(
+      {
+        code: ErrorCode.QUEUE_CLOSED,
+        message,
+      },
+      false
+    );
+    this.name = 'QueueClosedError';
+  }
+}
+
+/**
+ * Operation cancelled through an AbortSignal
+ */
+export class CancelledError extends AppError {
+  constructor(message = 'Operation cancelled') {
+    super(
+      {
+        code: ErrorCode.CANCELLED,
+        message,
+      },
+      false
+    );
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Get the error to surface for an aborted signal
+ * Reasons that are application errors, e.g. a TimeoutError, are kept
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof AppError ? signal.reason : new CancelledError();
+}
+
 /**
  * Configuration validation error
  */
@@ -292,6 +389,16 @@ export function getRetryAfter(error: Error): number | undefined {
   return undefined;
 }
 
+/**
+ * Extract error code from an error, if it has one
+ */
+export function getErrorCode(error?: Error): string | null {
+  if (error && 'code' in error && typeof error.code === 'string') {
+    return error.code;
+  }
+  return null;
+}
+
 /**
  * Check if error is a specific type
  */
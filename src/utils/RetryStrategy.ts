@@ -2,11 +2,20 @@
  * Retry strategy with exponential backoff and jitter
  */
 
-import { RetryOptions, RetryContext, ErrorCode } from '../types';
+import {
+  RetryOptions,
+  RetryContext,
+  RetryConfig,
+  RetryOperation,
+  RetryPolicy,
+  ErrorCode,
+} from '../types';
 import { 
   isRetryableError, 
   getRetryAfter, 
   MaxRetriesExceededError,
+  RetryBudgetExhaustedError,
+  getAbortError,
   isErrorCode 
 } from './ErrorHandler';
 import { logger } from './Logger';
@@ -28,6 +37,35 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   ],
 };
 
+/**
+ * Default retry config for API requests
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: DEFAULT_RETRY_OPTIONS.maxAttempts,
+  baseDelay: DEFAULT_RETRY_OPTIONS.baseDelay,
+  jitter: DEFAULT_RETRY_OPTIONS.jitter,
+  maxDelay: DEFAULT_RETRY_OPTIONS.maxDelay,
+  operations: {},
+};
+
+/**
+ * Resolve the retry policy of an operation class, falling back to the
+ * config's defaults
+ */
+export function resolveRetryPolicy(
+  config: RetryConfig,
+  operation?: RetryOperation
+): RetryPolicy {
+  const override = operation ? config.operations[operation] : undefined;
+
+  return {
+    maxAttempts: override?.maxAttempts ?? config.maxAttempts,
+    baseDelay: override?.baseDelay ?? config.baseDelay,
+    jitter: override?.jitter ?? config.jitter,
+    maxDelay: override?.maxDelay ?? config.maxDelay,
+  };
+}
+
 /**
  * Calculate exponential backoff delay with jitter
  */
@@ -52,9 +90,26 @@ export function calculateDelay(
 
 /**
  * Sleep for specified milliseconds
+ * Rejects early if the signal aborts
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -129,6 +184,10 @@ export async function withRetry<T>(
   let lastError: Error;
   
   while (attempt < opts.maxAttempts) {
+    if (opts.signal?.aborted) {
+      throw getAbortError(opts.signal);
+    }
+
     try {
       // Attempt the operation
       const result = await fn();
@@ -153,20 +212,35 @@ export async function withRetry<T>(
         });
         throw lastError;
       }
+
+      // Check the caller still has budget for another attempt
+      if (opts.acquireRetry && !opts.acquireRetry()) {
+        throw new RetryBudgetExhaustedError(attempt, lastError);
+      }
       
       // Calculate delay
       const delay = getRetryDelay(lastError, attempt - 1, opts);
       
+      const errorCode = 'code' in lastError ? (lastError as { code: ErrorCode }).code : undefined;
+
       // Log retry attempt
       logger.warn(`Retry attempt ${attempt}/${opts.maxAttempts} after ${delay}ms`, {
         ...context,
         errorMessage: lastError.message,
-        errorCode: 'code' in lastError ? (lastError as { code: ErrorCode }).code : undefined,
+        errorCode,
         delay,
       });
+
+      // Report the attempt to callers accounting for retries
+      opts.onRetry?.({
+        attempt,
+        errorCode: errorCode ?? null,
+        errorMessage: lastError.message,
+        delayMs: delay,
+      });
       
       // Wait before retrying
-      await sleep(delay);
+      await sleep(delay, opts.signal);
     }
   }
   
@@ -0,0 +1,78 @@
+/**
+ * Process shutdown coordination
+ * Signal handlers trigger shutdown; long-running work registers how to stop
+ */
+
+import { logger } from './Logger';
+
+/**
+ * Default time in-flight work gets to finish once shutdown starts
+ * Kept under the usual 30s grace period before a container is killed
+ */
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 25000;
+
+/**
+ * Shutdown handler
+ */
+export type ShutdownHandler = (signal: NodeJS.Signals) => void;
+
+/**
+ * Shutdown Coordinator class
+ */
+export class ShutdownCoordinator {
+  private handlers = new Set<ShutdownHandler>();
+  private signal: NodeJS.Signals | null = null;
+
+  /**
+   * Register a handler; returns a function that unregisters it
+   * Handlers registered after shutdown started are invoked immediately
+   */
+  public register(handler: ShutdownHandler): () => void {
+    this.handlers.add(handler);
+
+    if (this.signal) {
+      handler(this.signal);
+    }
+
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Start shutdown and notify registered handlers
+   * Returns the number of handlers notified
+   */
+  public trigger(signal: NodeJS.Signals): number {
+    if (this.signal) {
+      return this.handlers.size;
+    }
+
+    this.signal = signal;
+    logger.warn(`Received ${signal}, shutting down gracefully`, {
+      handlers: this.handlers.size,
+    });
+
+    this.handlers.forEach(handler => {
+      try {
+        handler(signal);
+      } catch (error) {
+        logger.error('Shutdown handler failed', error as Error);
+      }
+    });
+
+    return this.handlers.size;
+  }
+
+  /**
+   * Check if shutdown has started
+   */
+  public isShuttingDown(): boolean {
+    return this.signal !== null;
+  }
+}
+
+/**
+ * Default shutdown coordinator instance
+ */
+export const shutdown = new ShutdownCoordinator();
\ No newline at end of file
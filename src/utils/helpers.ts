@@ -2,6 +2,10 @@
  * Utility helper functions
  */
 
+import { createHash } from 'crypto';
+import { Campaign } from '../types';
+import { getAbortError } from './ErrorHandler';
+
 /**
  * Format duration in milliseconds to human-readable string
  */
@@ -89,6 +93,58 @@ export function timeout<T>(promise: Promise<T>, ms: number, errorMessage = 'Oper
   ]);
 }
 
+/**
+ * Reject if the signal aborts before the promise settles
+ * The underlying operation is not stopped; pass the signal to it for that
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(getAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * Create a signal that aborts after ms, or when the parent signal aborts
+ * Call clear() when done to release the timer and parent listener
+ */
+export function createTimeoutSignal(
+  ms: number,
+  timeoutReason: () => Error,
+  parent?: AbortSignal
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  const timer = setTimeout(() => controller.abort(timeoutReason()), ms);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
 /**
  * Retry a promise with delay
  */
@@ -180,4 +236,22 @@ export function removeUndefined<T extends Record<string, unknown>>(obj: T): Part
     }
   }
   return result;
+}
+
+/**
+ * Compute a stable content hash over the synced campaign fields
+ */
+export function computeCampaignHash(campaign: Campaign): string {
+  const content = JSON.stringify([
+    campaign.id,
+    campaign.name,
+    campaign.status,
+    Number(campaign.budget),
+    Number(campaign.impressions),
+    Number(campaign.clicks),
+    Number(campaign.conversions),
+    new Date(campaign.created_at).toISOString(),
+  ]);
+
+  return createHash('sha256').update(content).digest('hex');
 }
\ No newline at end of file
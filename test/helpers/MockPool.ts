@@ -0,0 +1,48 @@
+/**
+ * Connection pool double that records SQL instead of running it
+ */
+
+import { PoolClient } from 'pg';
+import { IConnectionPool } from '../../src/database/types';
+
+/**
+ * A query seen by the pool or its client
+ */
+export interface RecordedQuery {
+  text: string;
+  params: unknown[];
+  /** Whether it ran on a checked-out client rather than the pool */
+  onClient: boolean;
+}
+
+/**
+ * Rows to answer a query with; throw to make the query fail
+ */
+export type QueryResponder = (text: string, params: unknown[]) => unknown[] | undefined;
+
+/**
+ * Create a pool whose pool-level and client-level queries are recorded
+ * in one list, in execution order
+ */
+export function createMockPool(respond: QueryResponder = () => undefined) {
+  const queries: RecordedQuery[] = [];
+
+  const createQuery = (onClient: boolean) =>
+    jest.fn(async (text: string, params: unknown[] = []) => {
+      queries.push({ text: text.trim(), params, onClient });
+      const rows = respond(text.trim(), params) ?? [];
+      return { rows, rowCount: rows.length };
+    });
+
+  const client = {
+    query: createQuery(true),
+    release: jest.fn(),
+  } as unknown as PoolClient;
+
+  const pool = {
+    query: createQuery(false),
+    getClient: jest.fn(async () => client),
+  } as unknown as IConnectionPool;
+
+  return { pool, client, queries };
+}
\ No newline at end of file
@@ -79,7 +79,7 @@ export async function advanceTimersAsync(ms: number): Promise<void> {
 export function createSpy<T extends (...args: unknown[]) => unknown>(
   implementation?: T
 ): jest.Mock<ReturnType<T>, Parameters<T>> {
-  return jest.fn(implementation);
+  return jest.fn(implementation) as unknown as jest.Mock<ReturnType<T>, Parameters<T>>;
 }
 
 /**
@@ -136,7 +136,7 @@ export function createMockFetch(
       headers: new Map(Object.entries(response.headers || {})),
       json: async () => response.body,
       text: async () => JSON.stringify(response.body),
-    } as Response;
+    } as unknown as Response;
   });
 }
 
@@ -0,0 +1,242 @@
+/**
+ * CampaignService unit tests
+ */
+
+import { ApiClient } from '../../../src/api/ApiClient';
+import { CampaignService } from '../../../src/api/CampaignService';
+import * as RetryStrategy from '../../../src/utils/RetryStrategy';
+import { Campaign, PaginatedResponse } from '../../../src/types';
+import { createMockCampaigns, createMockPaginatedResponse } from '../../helpers/fixtures';
+
+describe('CampaignService', () => {
+  const createService = (
+    responses: Record<string, PaginatedResponse<Campaign>>,
+    fetchConcurrency = 1,
+    pageRetries = 0
+  ) => {
+    const get = jest.fn(async (path: string) => {
+      const response = responses[path];
+      if (!response) {
+        throw new Error(`Unexpected request: ${path}`);
+      }
+      return response;
+    });
+
+    const service = new CampaignService(
+      { get } as unknown as ApiClient,
+      1000,
+      1000,
+      fetchConcurrency,
+      pageRetries
+    );
+    return { service, get };
+  };
+
+  const ids = (campaigns: Campaign[]) => campaigns.map(c => c.id);
+
+  describe('Page Pagination', () => {
+    it('should follow pages until has_more is false', async () => {
+      const campaigns = createMockCampaigns(3);
+      const { service, get } = createService({
+        '/api/campaigns?page=1&per_page=2': createMockPaginatedResponse(campaigns.slice(0, 2), 1, 2, 3),
+        '/api/campaigns?page=2&per_page=2': createMockPaginatedResponse(campaigns.slice(2), 2, 2, 3),
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(['campaign_1', 'campaign_2', 'campaign_3']);
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop campaigns repeated across pages', async () => {
+      const campaigns = createMockCampaigns(3);
+      const { service } = createService({
+        '/api/campaigns?page=1&per_page=2': createMockPaginatedResponse(campaigns.slice(0, 2), 1, 2, 3),
+        // An insert at the head shifted campaign_2 onto page 2
+        '/api/campaigns?page=2&per_page=2': createMockPaginatedResponse(campaigns.slice(1), 2, 2, 3),
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(['campaign_1', 'campaign_2', 'campaign_3']);
+    });
+  });
+
+  describe('Cursor Pagination', () => {
+    const cursorPage = (data: Campaign[], nextCursor: string | null): PaginatedResponse<Campaign> => ({
+      data,
+      pagination: { per_page: 2, has_more: nextCursor !== null, next_cursor: nextCursor },
+    });
+
+    it('should detect cursor pagination and follow next_cursor', async () => {
+      const campaigns = createMockCampaigns(4);
+      const { service, get } = createService({
+        '/api/campaigns?page=1&per_page=2': cursorPage(campaigns.slice(0, 2), 'abc/2'),
+        '/api/campaigns?cursor=abc%2F2&per_page=2': cursorPage(campaigns.slice(2), null),
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(['campaign_1', 'campaign_2', 'campaign_3', 'campaign_4']);
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should accept a next token instead of next_cursor', async () => {
+      const campaigns = createMockCampaigns(3);
+      const { service } = createService({
+        '/api/campaigns?page=1&per_page=2': {
+          data: campaigns.slice(0, 2),
+          pagination: { per_page: 2, has_more: true, next: 'token_2' },
+        },
+        '/api/campaigns?cursor=token_2&per_page=2': {
+          data: campaigns.slice(2),
+          pagination: { per_page: 2, has_more: false, next: null },
+        },
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(['campaign_1', 'campaign_2', 'campaign_3']);
+    });
+
+    it('should stop when the API repeats a cursor', async () => {
+      const campaigns = createMockCampaigns(2);
+      const { service, get } = createService({
+        '/api/campaigns?page=1&per_page=2': cursorPage(campaigns.slice(0, 1), 'same'),
+        '/api/campaigns?cursor=same&per_page=2': cursorPage(campaigns.slice(1), 'same'),
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(['campaign_1', 'campaign_2']);
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Parallel Page Fetching', () => {
+    const createPagedResponses = (total: number, perPage: number) => {
+      const campaigns = createMockCampaigns(total);
+      const responses: Record<string, PaginatedResponse<Campaign>> = {};
+
+      for (let page = 1; page * perPage - perPage < total; page++) {
+        responses[`/api/campaigns?page=${page}&per_page=${perPage}`] = createMockPaginatedResponse(
+          campaigns.slice((page - 1) * perPage, page * perPage),
+          page,
+          perPage,
+          total
+        );
+      }
+
+      return { campaigns, responses };
+    };
+
+    it('should fetch remaining pages concurrently and keep them in order', async () => {
+      const { campaigns, responses } = createPagedResponses(10, 2);
+      const { service, get } = createService(responses, 3);
+
+      let active = 0;
+      let maxActive = 0;
+      const fetchPage = service.fetchCampaignsPage.bind(service);
+      jest.spyOn(service, 'fetchCampaignsPage').mockImplementation(async (page, perPage, cursor) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        // Later pages finish first
+        await new Promise(resolve => setTimeout(resolve, 50 - page * 5));
+        active--;
+        return fetchPage(page, perPage, cursor);
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(ids(campaigns));
+      expect(get).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(3);
+    });
+
+    it('should retry a failed page on its own', async () => {
+      const sleepSpy = jest.spyOn(RetryStrategy, 'sleep').mockResolvedValue(undefined);
+      const { campaigns, responses } = createPagedResponses(6, 2);
+      const { service, get } = createService(responses, 2, 2);
+
+      let failures = 0;
+      get.mockImplementation(async (path: string) => {
+        if (path === '/api/campaigns?page=2&per_page=2' && failures++ === 0) {
+          throw new Error('page 2 failed');
+        }
+        return responses[path];
+      });
+
+      const result = await service.fetchAllCampaigns(2);
+
+      expect(ids(result)).toEqual(ids(campaigns));
+      expect(get).toHaveBeenCalledTimes(4);
+      sleepSpy.mockRestore();
+    });
+
+    it('should fail once a page exhausts its retries', async () => {
+      const sleepSpy = jest.spyOn(RetryStrategy, 'sleep').mockResolvedValue(undefined);
+      const { responses } = createPagedResponses(6, 2);
+      const { service, get } = createService(responses, 2, 1);
+
+      get.mockImplementation(async (path: string) => {
+        if (path === '/api/campaigns?page=3&per_page=2') {
+          throw new Error('page 3 failed');
+        }
+        return responses[path];
+      });
+
+      await expect(service.fetchAllCampaigns(2)).rejects.toThrow('page 3 failed');
+      sleepSpy.mockRestore();
+    });
+
+    it('should back off page retries per the fetchPage policy', async () => {
+      const sleepSpy = jest.spyOn(RetryStrategy, 'sleep').mockResolvedValue(undefined);
+      const get = jest.fn(async () => {
+        throw new Error('page failed');
+      });
+      const service = new CampaignService(
+        { get } as unknown as ApiClient,
+        1000,
+        1000,
+        1,
+        2,
+        { maxAttempts: 1, baseDelay: 50, jitter: 0, maxDelay: 80 }
+      );
+
+      await expect(service.fetchAllCampaigns(2)).rejects.toThrow('page failed');
+
+      expect(sleepSpy.mock.calls.map(([delay]) => delay)).toEqual([50, 80]);
+      sleepSpy.mockRestore();
+    });
+  });
+
+  describe('Campaign Sync', () => {
+    it('should use a new idempotency key for each sync call', async () => {
+      const post = jest.fn().mockResolvedValue({ success: true });
+      const service = new CampaignService({ post } as unknown as ApiClient, 1000, 1000);
+
+      await service.syncCampaign('campaign_1');
+      await service.syncCampaign('campaign_1');
+
+      const [first, second] = post.mock.calls.map(([, , options]) => options.idempotencyKey);
+      expect(first).toMatch(/^sync-campaign_1-/);
+      expect(second).toMatch(/^sync-campaign_1-/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('Single Campaign', () => {
+    it('should pass the abort signal to the request', async () => {
+      const get = jest.fn().mockResolvedValue(createMockCampaigns(1)[0]);
+      const service = new CampaignService({ get } as unknown as ApiClient, 1000, 1000);
+      const controller = new AbortController();
+
+      await service.getCampaign('campaign_1', controller.signal);
+
+      expect(get).toHaveBeenCalledWith('/api/campaigns/campaign_1', {
+        timeout: 1000,
+        signal: controller.signal,
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,144 @@
+/**
+ * CircuitBreaker unit tests
+ */
+
+import { CircuitBreaker } from '../../../src/api/CircuitBreaker';
+import {
+  ApiError,
+  CancelledError,
+  CircuitOpenError,
+  ServiceUnavailableError,
+  TimeoutError,
+} from '../../../src/utils/ErrorHandler';
+import { ErrorCode } from '../../../src/types';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  const createBreaker = () => new CircuitBreaker(
+    { failureThreshold: 3, resetTimeoutMs: 10000 },
+    () => now
+  );
+
+  const fail = (breaker: CircuitBreaker, error: Error = new ServiceUnavailableError()) =>
+    breaker.execute(async () => {
+      throw error;
+    }).catch(() => undefined);
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  describe('Tripping', () => {
+    it('should open after consecutive upstream failures', async () => {
+      const breaker = createBreaker();
+
+      await fail(breaker);
+      await fail(breaker, new TimeoutError());
+      expect(breaker.getState()).toBe('closed');
+
+      await fail(breaker, new ApiError('boom', 502));
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('should reset the count when the upstream answers', async () => {
+      const breaker = createBreaker();
+
+      await fail(breaker);
+      await fail(breaker);
+      await fail(breaker, new ApiError('not found', 404));
+      await fail(breaker);
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should not reset the count on cancelled requests', async () => {
+      const breaker = createBreaker();
+
+      await fail(breaker);
+      await fail(breaker);
+      await fail(breaker, new CancelledError('Sync run cancelled'));
+      await fail(breaker);
+
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('should fail fast without calling the upstream while open', async () => {
+      const breaker = createBreaker();
+      for (let i = 0; i < 3; i++) {
+        await fail(breaker);
+      }
+
+      const fn = jest.fn(async () => 'ok');
+      const error = await breaker.execute(fn).catch(e => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.code).toBe(ErrorCode.CIRCUIT_OPEN);
+      expect(error.isRetryable).toBe(false);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Half-Open Probe', () => {
+    const openBreaker = async () => {
+      const breaker = createBreaker();
+      for (let i = 0; i < 3; i++) {
+        await fail(breaker);
+      }
+      now += 10000;
+      return breaker;
+    };
+
+    it('should close when the probe succeeds', async () => {
+      const breaker = await openBreaker();
+
+      expect(breaker.getState()).toBe('half_open');
+      await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should re-open when the probe fails', async () => {
+      const breaker = await openBreaker();
+
+      await fail(breaker);
+
+      expect(breaker.getState()).toBe('open');
+    });
+
+    it('should only let a single probe through', async () => {
+      const breaker = await openBreaker();
+      let release: () => void = () => undefined;
+      const probe = breaker.execute(() => new Promise<string>(resolve => {
+        release = () => resolve('probe');
+      }));
+
+      await expect(breaker.execute(async () => 'other')).rejects.toBeInstanceOf(CircuitOpenError);
+
+      release();
+      await expect(probe).resolves.toBe('probe');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should stay half-open and free the probe slot when the probe is cancelled', async () => {
+      const breaker = await openBreaker();
+
+      await fail(breaker, new CancelledError('Sync run cancelled'));
+
+      expect(breaker.getState()).toBe('half_open');
+      await expect(breaker.execute(async () => 'next probe')).resolves.toBe('next probe');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should record each transition', async () => {
+      const breaker = await openBreaker();
+      await breaker.execute(async () => 'ok');
+
+      expect(breaker.getTransitions().map(t => `${t.from}->${t.to}`)).toEqual([
+        'closed->open',
+        'open->half_open',
+        'half_open->closed',
+      ]);
+      expect(breaker.getTransitions(new Date(now))).toHaveLength(2);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * DistributedRateLimiter unit tests
+ */
+
+import { AcquireSlotFn, DistributedRateLimiter } from '../../../src/api/DistributedRateLimiter';
+import { DatabaseError } from '../../../src/utils/ErrorHandler';
+import { sleep } from '../../../src/utils/RetryStrategy';
+
+/**
+ * In-memory stand-in for the shared slot table
+ */
+function createSharedStore(): AcquireSlotFn {
+  const slots = new Map<string, number[]>();
+
+  return jest.fn(async (key: string, maxRequests: number, windowMs: number) => {
+    const now = Date.now();
+    const window = (slots.get(key) ?? []).filter(t => t > now - windowMs);
+    slots.set(key, window);
+
+    if (window.length < maxRequests) {
+      window.push(now);
+      return { acquired: true, remaining: maxRequests - window.length, retryAfterMs: 0 };
+    }
+
+    return { acquired: false, remaining: 0, retryAfterMs: window[0] + windowMs - now };
+  });
+}
+
+describe('DistributedRateLimiter', () => {
+  const config = { maxRequests: 2, windowMs: 300 };
+
+  it('should share the quota between limiters using the same key', async () => {
+    const store = createSharedStore();
+    const workerA = new DistributedRateLimiter('sync:default', config, store);
+    const workerB = new DistributedRateLimiter('sync:default', config, store);
+
+    await workerA.execute(async () => 'a1');
+    await workerB.execute(async () => 'b1');
+
+    const startTime = Date.now();
+    await workerA.execute(async () => 'a2');
+
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(250);
+  });
+
+  it('should keep separate quotas for separate keys', async () => {
+    const store = createSharedStore();
+    const list = new DistributedRateLimiter('sync:/api/campaigns', config, store);
+    const sync = new DistributedRateLimiter('sync:/api/campaigns/*/sync', config, store);
+
+    await list.execute(async () => 'page 1');
+    await list.execute(async () => 'page 2');
+
+    const startTime = Date.now();
+    await sync.execute(async () => 'synced');
+
+    expect(Date.now() - startTime).toBeLessThan(100);
+  });
+
+  it('should run acquired requests concurrently', async () => {
+    const limiter = new DistributedRateLimiter('sync:default', config, createSharedStore());
+    let active = 0;
+    let maxActive = 0;
+
+    const task = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(50);
+      active--;
+    };
+
+    await Promise.all([limiter.execute(task), limiter.execute(task)]);
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('should reject requests when a slot cannot be claimed', async () => {
+    const store = jest.fn()
+      .mockRejectedValueOnce(new DatabaseError('connection refused'))
+      .mockResolvedValue({ acquired: true, remaining: 1, retryAfterMs: 0 });
+    const limiter = new DistributedRateLimiter('sync:default', config, store);
+
+    await expect(limiter.execute(async () => 'first')).rejects.toThrow('connection refused');
+    await expect(limiter.execute(async () => 'second')).resolves.toBe('second');
+  });
+
+  it('should hold requests while paused without claiming slots', async () => {
+    const store = createSharedStore();
+    const limiter = new DistributedRateLimiter('sync:default', config, store);
+
+    limiter.pause(200);
+    const promise = limiter.execute(async () => 'done');
+
+    await sleep(100);
+    expect(store).not.toHaveBeenCalled();
+    expect(limiter.canMakeRequest()).toBe(false);
+
+    await expect(promise).resolves.toBe('done');
+  });
+
+  it('should drop a queued request when its signal aborts', async () => {
+    const store = createSharedStore();
+    const limiter = new DistributedRateLimiter('sync:default', config, store);
+    const controller = new AbortController();
+    const fn = jest.fn(async () => 'late');
+
+    await limiter.execute(async () => 'first');
+    await limiter.execute(async () => 'second');
+    const queued = limiter.execute(fn, 0, controller.signal);
+    await sleep(20);
+    expect(limiter.getQueueLength()).toBe(1);
+
+    controller.abort();
+
+    await expect(queued).rejects.toThrow();
+    expect(limiter.getQueueLength()).toBe(0);
+    expect(fn).not.toHaveBeenCalled();
+    limiter.clear();
+  });
+});
\ No newline at end of file
@@ -2,8 +2,13 @@
  * RateLimiter unit tests
  */
 
-import { RateLimiter } from '../../../src/api/RateLimiter';
-import { sleep, waitFor } from '../../helpers/testUtils';
+import {
+  RateLimiter,
+  TokenBucketRateLimiter,
+  createRateLimiter,
+} from '../../../src/api/RateLimiter';
+import { CancelledError } from '../../../src/utils/ErrorHandler';
+import { sleep } from '../../helpers/testUtils';
 
 describe('RateLimiter', () => {
   describe('Sliding Window', () => {
@@ -328,6 +333,158 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('Server Feedback', () => {
+    it('should follow a lower quota reported by the server', async () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 10,
+        windowMs: 60000,
+      });
+
+      rateLimiter.updateFromServer({ remaining: 2, resetAt: Date.now() + 60000 });
+      expect(rateLimiter.getInfo().remaining).toBe(2);
+
+      await rateLimiter.execute(async () => 'test');
+      expect(rateLimiter.getInfo().remaining).toBe(1);
+    });
+
+    it('should hold requests until the server quota resets', async () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 10,
+        windowMs: 60000,
+      });
+
+      rateLimiter.updateFromServer({ remaining: 0, resetAt: Date.now() + 300 });
+      expect(rateLimiter.canMakeRequest()).toBe(false);
+
+      const startTime = Date.now();
+      await rateLimiter.execute(async () => 'test');
+
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(250);
+    });
+
+    it('should ignore a quota that already reset', () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 10,
+        windowMs: 60000,
+      });
+
+      rateLimiter.updateFromServer({ remaining: 0, resetAt: Date.now() - 1000 });
+
+      expect(rateLimiter.getInfo().remaining).toBe(10);
+    });
+
+    it('should hold every queued request while paused', async () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 10,
+        windowMs: 60000,
+      });
+
+      const results: string[] = [];
+      rateLimiter.pause(300);
+
+      const promises = ['a', 'b', 'c'].map(name =>
+        rateLimiter.execute(async () => {
+          results.push(name);
+        })
+      );
+
+      await sleep(100);
+      expect(results).toHaveLength(0);
+      expect(rateLimiter.getQueueLength()).toBe(3);
+
+      await Promise.all(promises);
+      expect(results).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('Token Bucket', () => {
+    it('should allow a burst up to the bucket size', async () => {
+      const rateLimiter = new TokenBucketRateLimiter({
+        maxRequests: 3,
+        windowMs: 60000,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await rateLimiter.execute(async () => `request_${i}`);
+      }
+
+      expect(rateLimiter.canMakeRequest()).toBe(false);
+    });
+
+    it('should refill tokens evenly across the window', async () => {
+      const rateLimiter = new TokenBucketRateLimiter({
+        maxRequests: 5,
+        windowMs: 1000,
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await rateLimiter.execute(async () => `request_${i}`);
+      }
+
+      const startTime = Date.now();
+      await rateLimiter.execute(async () => 'next');
+
+      // One token takes a fifth of the window, not the whole window
+      const duration = Date.now() - startTime;
+      expect(duration).toBeGreaterThanOrEqual(150);
+      expect(duration).toBeLessThan(600);
+    });
+
+    it('should refill to a full bucket after clear', async () => {
+      const rateLimiter = new TokenBucketRateLimiter({
+        maxRequests: 2,
+        windowMs: 60000,
+      });
+
+      await rateLimiter.execute(async () => 'test1');
+      await rateLimiter.execute(async () => 'test2');
+      rateLimiter.clear();
+
+      expect(rateLimiter.getInfo().remaining).toBe(2);
+    });
+
+    it('should be selected by the algorithm config', () => {
+      expect(createRateLimiter({ maxRequests: 1, windowMs: 1000, algorithm: 'token_bucket' }))
+        .toBeInstanceOf(TokenBucketRateLimiter);
+      expect(createRateLimiter({ maxRequests: 1, windowMs: 1000 }))
+        .toBeInstanceOf(RateLimiter);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should drop a queued request when its signal aborts', async () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 1,
+        windowMs: 200,
+      });
+      const controller = new AbortController();
+      const fn = jest.fn(async () => 'queued');
+
+      await rateLimiter.execute(async () => 'first');
+      const queued = rateLimiter.execute(fn, 0, controller.signal);
+      expect(rateLimiter.getQueueLength()).toBe(1);
+
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(CancelledError);
+      expect(rateLimiter.getQueueLength()).toBe(0);
+      await sleep(300);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should reject with the abort reason when it is an app error', async () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 1,
+        windowMs: 60000,
+      });
+      const controller = new AbortController();
+      controller.abort(new CancelledError('Sync run cancelled'));
+
+      await expect(rateLimiter.execute(async () => 'ok', 0, controller.signal))
+        .rejects.toThrow('Sync run cancelled');
+    });
+  });
+
   describe('Clear State', () => {
     it('should clear all state', async () => {
       const rateLimiter = new RateLimiter({
@@ -348,5 +505,17 @@ describe('RateLimiter', () => {
       expect(rateLimiter.getInfo().remaining).toBe(5);
       expect(rateLimiter.getQueueLength()).toBe(0);
     });
+
+    it('should clear a pause', () => {
+      const rateLimiter = new RateLimiter({
+        maxRequests: 5,
+        windowMs: 60000,
+      });
+
+      rateLimiter.pause(60000);
+      rateLimiter.clear();
+
+      expect(rateLimiter.canMakeRequest()).toBe(true);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * RateLimiterRouter unit tests
+ */
+
+import { RateLimiter } from '../../../src/api/RateLimiter';
+import {
+  RateLimiterRouter,
+  compilePathPattern,
+  createRateLimiterRouter,
+} from '../../../src/api/RateLimiterRouter';
+
+describe('RateLimiterRouter', () => {
+  describe('compilePathPattern', () => {
+    it('should match a wildcard within one path segment', () => {
+      const regex = compilePathPattern('/api/campaigns/*/sync');
+
+      expect(regex.test('/api/campaigns/campaign_1/sync')).toBe(true);
+      expect(regex.test('/api/campaigns/a/b/sync')).toBe(false);
+      expect(regex.test('/api/campaigns/campaign_1')).toBe(false);
+    });
+
+    it('should ignore the query string', () => {
+      const regex = compilePathPattern('/api/campaigns');
+
+      expect(regex.test('/api/campaigns?page=2&per_page=100')).toBe(true);
+      expect(regex.test('/api/campaigns/campaign_1')).toBe(false);
+    });
+  });
+
+  describe('Routing', () => {
+    const createRouter = () => {
+      const defaultLimiter = new RateLimiter({ maxRequests: 10, windowMs: 60000 });
+      const listLimiter = new RateLimiter({ maxRequests: 1, windowMs: 60000 });
+      const syncLimiter = new RateLimiter({ maxRequests: 5, windowMs: 60000 });
+
+      const router = new RateLimiterRouter(defaultLimiter, [
+        { pattern: '/api/campaigns', limiter: listLimiter },
+        { pattern: '/api/campaigns/*/sync', limiter: syncLimiter },
+      ]);
+
+      return { router, defaultLimiter, listLimiter, syncLimiter };
+    };
+
+    it('should route paths to the first matching limiter', () => {
+      const { router, defaultLimiter, listLimiter, syncLimiter } = createRouter();
+
+      expect(router.forPath('/api/campaigns?page=1&per_page=100')).toBe(listLimiter);
+      expect(router.forPath('/api/campaigns/campaign_1/sync')).toBe(syncLimiter);
+      expect(router.forPath('/api/campaigns/campaign_1')).toBe(defaultLimiter);
+    });
+
+    it('should not let an exhausted endpoint block others', async () => {
+      const { router } = createRouter();
+
+      await router.forPath('/api/campaigns?page=1').execute(async () => 'page 1');
+      expect(router.forPath('/api/campaigns?page=2').canMakeRequest()).toBe(false);
+
+      const result = await router
+        .forPath('/api/campaigns/campaign_1/sync')
+        .execute(async () => 'synced');
+      expect(result).toBe('synced');
+    });
+
+    it('should pause only the default limiter', () => {
+      const { router, defaultLimiter, listLimiter, syncLimiter } = createRouter();
+
+      router.pause(1000);
+
+      expect(defaultLimiter.canMakeRequest()).toBe(false);
+      expect(listLimiter.canMakeRequest()).toBe(true);
+      expect(syncLimiter.canMakeRequest()).toBe(true);
+      router.clear();
+    });
+
+    it('should clear every limiter', async () => {
+      const { router, listLimiter } = createRouter();
+
+      await listLimiter.execute(async () => 'page 1');
+      router.clear();
+
+      expect(listLimiter.canMakeRequest()).toBe(true);
+    });
+  });
+
+  it('should build limiters from endpoint config', () => {
+    const router = createRateLimiterRouter({ maxRequests: 10, windowMs: 60000 }, [
+      { pattern: '/api/campaigns', maxRequests: 2, windowMs: 60000, algorithm: 'token_bucket' },
+    ]);
+
+    expect(router.forPath('/api/campaigns').getInfo().total).toBe(2);
+    expect(router.forPath('/api/campaigns/campaign_1').getInfo().total).toBe(10);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * RetryBudget unit tests
+ */
+
+import { RetryBudget } from '../../../src/api/RetryBudget';
+
+describe('RetryBudget', () => {
+  let now: number;
+
+  const createBudget = (minRetries = 0) => new RetryBudget(
+    { percent: 20, windowMs: 10000, minRetries },
+    () => now
+  );
+
+  const recordRequests = (budget: RetryBudget, count: number) => {
+    for (let i = 0; i < count; i++) {
+      budget.recordRequest();
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('should allow retries up to the percentage of requests', () => {
+    const budget = createBudget();
+    recordRequests(budget, 10);
+
+    expect(budget.tryAcquireRetry()).toBe(true);
+    expect(budget.tryAcquireRetry()).toBe(true);
+    expect(budget.tryAcquireRetry()).toBe(false);
+    expect(budget.getExhaustedCount()).toBe(1);
+  });
+
+  it('should always allow the minimum retries', () => {
+    const budget = createBudget(2);
+
+    expect(budget.getRemaining()).toBe(2);
+    expect(budget.tryAcquireRetry()).toBe(true);
+    expect(budget.tryAcquireRetry()).toBe(true);
+    expect(budget.tryAcquireRetry()).toBe(false);
+  });
+
+  it('should refill as retries leave the window', () => {
+    const budget = createBudget(1);
+
+    expect(budget.tryAcquireRetry()).toBe(true);
+    expect(budget.tryAcquireRetry()).toBe(false);
+
+    now += 10001;
+    expect(budget.tryAcquireRetry()).toBe(true);
+  });
+
+  it('should stop counting requests that left the window', () => {
+    const budget = createBudget();
+    recordRequests(budget, 5);
+    expect(budget.getRemaining()).toBe(1);
+
+    now += 10001;
+    expect(budget.getRemaining()).toBe(0);
+  });
+});
\ No newline at end of file
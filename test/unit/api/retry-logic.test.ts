@@ -0,0 +1,396 @@
+/**
+ * ApiClient retry policy unit tests
+ */
+
+import { ApiClient } from '../../../src/api/ApiClient';
+import { RateLimiter } from '../../../src/api/RateLimiter';
+import { RateLimiterRouter } from '../../../src/api/RateLimiterRouter';
+import { RetryBudget } from '../../../src/api/RetryBudget';
+import { IRateLimiter } from '../../../src/api/types';
+import { ITokenManager } from '../../../src/auth/types';
+import { TokenManager } from '../../../src/auth/TokenManager';
+import { ErrorCode, RetryConfig } from '../../../src/types';
+import {
+  CancelledError,
+  TimeoutError,
+  TokenExpiredError,
+} from '../../../src/utils/ErrorHandler';
+import { createMockAuthResponse, createMockToken } from '../../helpers/fixtures';
+import { createMockFetch } from '../../helpers/testUtils';
+
+describe('ApiClient retry policy', () => {
+  const retryConfig: RetryConfig = {
+    maxAttempts: 4,
+    baseDelay: 1,
+    jitter: 0,
+    maxDelay: 10,
+    operations: {
+      syncCampaign: { maxAttempts: 2, baseDelay: 1, jitter: 0, maxDelay: 10 },
+    },
+  };
+
+  const unavailable = { status: 503, body: { message: 'down' }, headers: { 'retry-after': '0' } };
+
+  const createClient = (fetchFn: jest.Mock, retryBudget?: RetryBudget) => {
+    const tokenManager = { getToken: async () => createMockToken() } as unknown as ITokenManager;
+    const rateLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+
+    return new ApiClient(
+      'http://api.test',
+      tokenManager,
+      rateLimiter,
+      1000,
+      fetchFn as unknown as typeof fetch,
+      undefined,
+      retryConfig,
+      retryBudget
+    );
+  };
+
+  it('should use the default policy for requests without an operation', async () => {
+    const fetchFn = createMockFetch([unavailable]);
+
+    await expect(createClient(fetchFn).get('/api/campaigns/1')).rejects.toThrow('down');
+
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should use the policy of the request operation class', async () => {
+    const fetchFn = createMockFetch([unavailable]);
+
+    await expect(
+      createClient(fetchFn).post('/api/campaigns/1/sync', {}, { operation: 'syncCampaign' })
+    ).rejects.toThrow('down');
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the default policy for unconfigured operations', async () => {
+    const fetchFn = createMockFetch([unavailable]);
+
+    await expect(
+      createClient(fetchFn).get('/api/campaigns?page=1', { operation: 'fetchPage' })
+    ).rejects.toThrow('down');
+
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should let a request override its policy', async () => {
+    const fetchFn = createMockFetch([unavailable, unavailable, { status: 200, body: { ok: true } }]);
+
+    await expect(
+      createClient(fetchFn).post('/api/campaigns/1/sync', {}, {
+        operation: 'syncCampaign',
+        retry: { maxAttempts: 3 },
+      })
+    ).resolves.toEqual({ ok: true });
+
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry requests marked non-retryable', async () => {
+    const fetchFn = createMockFetch([unavailable]);
+
+    await expect(
+      createClient(fetchFn).post('/api/campaigns/1/sync', {}, { retryable: false })
+    ).rejects.toThrow('down');
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the same idempotency key on every attempt', async () => {
+    const fetchFn = createMockFetch([unavailable, { status: 200, body: { ok: true } }]);
+
+    await createClient(fetchFn).post('/api/campaigns/1/sync', {}, { idempotencyKey: 'key-1' });
+
+    const keys = fetchFn.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(keys).toEqual(['key-1', 'key-1']);
+  });
+
+  it('should share the retry budget across requests', async () => {
+    const fetchFn = createMockFetch([unavailable]);
+    const client = createClient(
+      fetchFn,
+      new RetryBudget({ percent: 0, windowMs: 60000, minRetries: 2 })
+    );
+
+    await expect(client.get('/api/campaigns/1')).rejects.toThrow('down');
+    await expect(client.get('/api/campaigns/2')).rejects.toMatchObject({
+      code: ErrorCode.RETRY_BUDGET_EXHAUSTED,
+    });
+
+    // The first request spends both retries, leaving none for the second
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('ApiClient rate limit feedback', () => {
+  const createClient = (fetchFn: jest.Mock, rateLimiter: IRateLimiter) => {
+    const tokenManager = { getToken: async () => createMockToken() } as unknown as ITokenManager;
+
+    return new ApiClient(
+      'http://api.test',
+      tokenManager,
+      rateLimiter,
+      1000,
+      fetchFn as unknown as typeof fetch,
+      undefined,
+      { maxAttempts: 1, baseDelay: 1, jitter: 0, maxDelay: 10, operations: {} }
+    );
+  };
+
+  it('should pass the server quota to the rate limiter', async () => {
+    const rateLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const fetchFn = createMockFetch([{
+      status: 200,
+      body: {},
+      headers: { 'x-ratelimit-remaining': '3', 'x-ratelimit-reset': '30' },
+    }]);
+
+    await createClient(fetchFn, rateLimiter).get('/api/campaigns/1');
+
+    expect(rateLimiter.getInfo().remaining).toBe(3);
+  });
+
+  it('should accept an epoch X-RateLimit-Reset', async () => {
+    const rateLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const resetAt = Math.floor(Date.now() / 1000) + 30;
+    const fetchFn = createMockFetch([{
+      status: 200,
+      body: {},
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) },
+    }]);
+
+    await createClient(fetchFn, rateLimiter).get('/api/campaigns/1');
+
+    expect(rateLimiter.getInfo().resetAt).toBe(resetAt * 1000);
+  });
+
+  it('should pass the server quota to the limiter of the requested endpoint', async () => {
+    const defaultLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const listLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const router = new RateLimiterRouter(defaultLimiter, [
+      { pattern: '/api/campaigns', limiter: listLimiter },
+    ]);
+    const fetchFn = createMockFetch([{
+      status: 200,
+      body: {},
+      headers: { 'x-ratelimit-remaining': '3', 'x-ratelimit-reset': '30' },
+    }]);
+
+    await createClient(fetchFn, router).get('/api/campaigns?page=1&per_page=100');
+
+    expect(listLimiter.getInfo().remaining).toBe(3);
+    expect(defaultLimiter.getInfo().remaining).toBe(100);
+  });
+
+  it('should pause only the limiter of the rate limited endpoint', async () => {
+    const listLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const syncLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const router = new RateLimiterRouter(new RateLimiter({ maxRequests: 100, windowMs: 1000 }), [
+      { pattern: '/api/campaigns', limiter: listLimiter },
+      { pattern: '/api/campaigns/*/sync', limiter: syncLimiter },
+    ]);
+    const fetchFn = createMockFetch([{
+      status: 429,
+      body: { message: 'slow down' },
+      headers: { 'retry-after': '30' },
+    }]);
+
+    await expect(
+      createClient(fetchFn, router).get('/api/campaigns?page=1&per_page=100')
+    ).rejects.toThrow();
+
+    expect(listLimiter.canMakeRequest()).toBe(false);
+    expect(syncLimiter.canMakeRequest()).toBe(true);
+    expect(router.canMakeRequest()).toBe(true);
+    router.clear();
+  });
+
+  it('should pause the rate limiter on 429', async () => {
+    const rateLimiter = new RateLimiter({ maxRequests: 100, windowMs: 1000 });
+    const fetchFn = createMockFetch([{
+      status: 429,
+      body: { message: 'slow down' },
+      headers: { 'retry-after': '30' },
+    }]);
+
+    await expect(createClient(fetchFn, rateLimiter).get('/api/campaigns/1')).rejects.toThrow();
+
+    expect(rateLimiter.canMakeRequest()).toBe(false);
+    expect(rateLimiter.getInfo().resetAt).toBeGreaterThan(Date.now() + 25000);
+    rateLimiter.clear();
+  });
+});
+describe('ApiClient cancellation', () => {
+  const createClient = (fetchFn: jest.Mock, requestTimeout = 1000) => {
+    const tokenManager = { getToken: async () => createMockToken() } as unknown as ITokenManager;
+
+    return new ApiClient(
+      'http://api.test',
+      tokenManager,
+      new RateLimiter({ maxRequests: 100, windowMs: 1000 }),
+      requestTimeout,
+      fetchFn as unknown as typeof fetch,
+      undefined,
+      { maxAttempts: 1, baseDelay: 1, jitter: 0, maxDelay: 10, operations: {} }
+    );
+  };
+
+  // A fetch that only settles when its signal aborts
+  const createHangingFetch = () => jest.fn<Promise<Response>, [string, RequestInit]>((_url, init) =>
+    new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+    })
+  );
+
+  it('should abort the fetch when the request times out', async () => {
+    const fetchFn = createHangingFetch();
+
+    const error = await createClient(fetchFn, 50).get('/api/campaigns/1').catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(fetchFn.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+
+  it('should abort the fetch when the caller cancels', async () => {
+    const fetchFn = createHangingFetch();
+    const controller = new AbortController();
+
+    const promise = createClient(fetchFn).get('/api/campaigns/1', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+
+  it('should not send a request that is already cancelled', async () => {
+    const fetchFn = createHangingFetch();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createClient(fetchFn).get('/api/campaigns/1', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiClient re-authentication', () => {
+  const authEndpoint = 'http://api.test/api/auth/login';
+
+  // Issues token_1, token_2, ... and accepts only the given API token
+  const createServer = (acceptedToken: string | null) => {
+    let issued = 0;
+
+    return jest.fn(async (url: string, init: RequestInit) => {
+      if (url === authEndpoint) {
+        issued++;
+        return {
+          ok: true,
+          status: 200,
+          json: async () => createMockAuthResponse({ access_token: `token_${issued}` }),
+        } as Response;
+      }
+
+      const authorization = (init.headers as Record<string, string>)['Authorization'];
+      const status = authorization === `Bearer ${acceptedToken}` ? 200 : 401;
+      return {
+        ok: status === 200,
+        status,
+        statusText: status === 200 ? 'OK' : 'Unauthorized',
+        headers: new Map(),
+        json: async () => ({ ok: true }),
+        text: async () => 'Token revoked',
+      } as unknown as Response;
+    });
+  };
+
+  const createClient = (fetchFn: jest.Mock) => {
+    const tokenManager = new TokenManager(
+      { email: 'test@example.com', password: 'password123' },
+      authEndpoint,
+      fetchFn,
+      { maxAttempts: 1, baseDelay: 1, jitter: 0, maxDelay: 10 }
+    );
+    const client = new ApiClient(
+      'http://api.test',
+      tokenManager,
+      new RateLimiter({ maxRequests: 100, windowMs: 1000 }),
+      1000,
+      fetchFn as unknown as typeof fetch,
+      undefined,
+      { maxAttempts: 1, baseDelay: 1, jitter: 0, maxDelay: 10, operations: {} }
+    );
+
+    return { client, tokenManager };
+  };
+
+  const authCalls = (fetchFn: jest.Mock) =>
+    fetchFn.mock.calls.filter(([url]) => url === authEndpoint).length;
+
+  it('should not deadlock when authentication shares the request limiter', async () => {
+    const fetchFn = jest.fn(async (url: string) => ({
+      ok: true,
+      status: 200,
+      headers: new Map(),
+      json: async () => (url === authEndpoint ? createMockAuthResponse() : { ok: true }),
+    } as unknown as Response));
+    const limiter = new RateLimiter({ maxRequests: 1, windowMs: 200 });
+    const tokenManager = new TokenManager(
+      { email: 'test@example.com', password: 'password123' },
+      authEndpoint,
+      url => limiter.execute(() => fetchFn(url)),
+      { maxAttempts: 1, baseDelay: 1, jitter: 0, maxDelay: 10 }
+    );
+    const client = new ApiClient(
+      'http://api.test',
+      tokenManager,
+      limiter,
+      1000,
+      fetchFn as unknown as typeof fetch
+    );
+
+    // With the window used up, the request is queued and runs from the
+    // limiter's queue, where it must not wait on an auth request queued behind it
+    await limiter.execute(async () => undefined);
+
+    await expect(client.get('/api/campaigns/1')).resolves.toEqual({ ok: true });
+  }, 2000);
+
+  it('should renew a rejected token and re-send the request once', async () => {
+    const fetchFn = createServer('token_2');
+    const { client } = createClient(fetchFn);
+
+    await expect(client.get('/api/campaigns/1')).resolves.toEqual({ ok: true });
+
+    expect(authCalls(fetchFn)).toBe(2);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should share one refresh between concurrent 401s', async () => {
+    const fetchFn = createServer('token_2');
+    const { client, tokenManager } = createClient(fetchFn);
+    await tokenManager.getToken();
+
+    const results = await Promise.all([
+      client.get('/api/campaigns/1'),
+      client.get('/api/campaigns/2'),
+      client.get('/api/campaigns/3'),
+    ]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(authCalls(fetchFn)).toBe(2);
+  });
+
+  it('should not renew again when the fresh token is rejected too', async () => {
+    const fetchFn = createServer(null);
+    const { client } = createClient(fetchFn);
+
+    await expect(client.get('/api/campaigns/1')).rejects.toBeInstanceOf(TokenExpiredError);
+
+    expect(authCalls(fetchFn)).toBe(2);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+});
\ No newline at end of file
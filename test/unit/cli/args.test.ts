@@ -0,0 +1,68 @@
+/**
+ * CLI argument parsing unit tests
+ */
+
+import { parseCliArgs } from '../../../src/cli/args';
+import { ValidationError } from '../../../src/utils/ErrorHandler';
+
+describe('parseCliArgs', () => {
+  it('should split the command from its arguments', () => {
+    const { command, args } = parseCliArgs(['report', 'run_123']);
+
+    expect(command).toBe('report');
+    expect(args).toEqual(['run_123']);
+  });
+
+  it('should apply option defaults', () => {
+    const { command, options } = parseCliArgs([]);
+
+    expect(command).toBeUndefined();
+    expect(options).toEqual({
+      campaigns: [],
+      statuses: [],
+      dryRun: false,
+      resume: false,
+      json: false,
+      help: false,
+      steps: 1,
+      limit: 10,
+    });
+  });
+
+  it('should collect repeated --campaign options', () => {
+    const { options } = parseCliArgs(['sync', '--campaign', 'a', '--campaign', 'b']);
+
+    expect(options.campaigns).toEqual(['a', 'b']);
+  });
+
+  it('should accept repeated and comma-separated --status values', () => {
+    const { options } = parseCliArgs(['sync', '--status', 'Active, paused', '--status', 'completed']);
+
+    expect(options.statuses).toEqual(['active', 'paused', 'completed']);
+  });
+
+  it('should reject an unknown status', () => {
+    expect(() => parseCliArgs(['sync', '--status', 'archived'])).toThrow(ValidationError);
+  });
+
+  it('should parse boolean flags', () => {
+    const { options } = parseCliArgs(['sync', '--dry-run', '--json', '--resume', '-h']);
+
+    expect(options).toMatchObject({ dryRun: true, json: true, resume: true, help: true });
+  });
+
+  it('should parse numeric options', () => {
+    const { options } = parseCliArgs(['db', 'migrate', 'down', '--steps', '3', '--limit', '25']);
+
+    expect(options.steps).toBe(3);
+    expect(options.limit).toBe(25);
+  });
+
+  it.each(['0', '-1', 'many'])('should reject --steps %s', value => {
+    expect(() => parseCliArgs(['db', 'migrate', 'down', '--steps', value])).toThrow(ValidationError);
+  });
+
+  it('should turn unknown options into a ValidationError', () => {
+    expect(() => parseCliArgs(['sync', '--bogus'])).toThrow(ValidationError);
+  });
+});
\ No newline at end of file
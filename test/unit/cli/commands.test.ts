@@ -0,0 +1,234 @@
+/**
+ * CLI command handler unit tests
+ */
+
+import { dlqCommand, healthCommand, printSyncReport } from '../../../src/cli/commands';
+import { AppContext } from '../../../src/cli/context';
+import { parseCliArgs } from '../../../src/cli/args';
+import { ExitCode } from '../../../src/cli/types';
+import { DeadLetter } from '../../../src/database/types';
+import { buildSyncPlan } from '../../../src/sync/SyncPlan';
+import { SyncOrchestratorDependencies } from '../../../src/sync/types';
+import { Campaign, SyncReport } from '../../../src/types';
+import { ApiError, TimeoutError, ValidationError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaigns, createMockToken } from '../../helpers/fixtures';
+
+describe('CLI commands', () => {
+  const textOptions = parseCliArgs([]).options;
+  const jsonOptions = parseCliArgs(['--json']).options;
+
+  const createReport = (overrides: Partial<SyncReport> = {}): SyncReport => ({
+    runId: 'run_1',
+    mode: 'full',
+    startTime: new Date('2025-01-01T00:00:00Z'),
+    endTime: new Date('2025-01-01T00:01:00Z'),
+    duration: 60000,
+    totalCampaigns: 1,
+    skippedCount: 0,
+    completedCount: 0,
+    filter: null,
+    filteredOutCount: 0,
+    successCount: 1,
+    failureCount: 0,
+    retryCount: 0,
+    backoffMs: 0,
+    requeueCount: 0,
+    deadLetterCount: 0,
+    circuitTransitions: [],
+    deletions: null,
+    interrupted: false,
+    results: [],
+    failures: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('printSyncReport', () => {
+    it('should succeed when every campaign synced', () => {
+      expect(printSyncReport(textOptions, createReport())).toBe(ExitCode.SUCCESS);
+    });
+
+    it('should exit SYNC_FAILURES when campaigns failed', () => {
+      const report = createReport({ successCount: 0, failureCount: 1 });
+
+      expect(printSyncReport(textOptions, report)).toBe(ExitCode.SYNC_FAILURES);
+    });
+
+    it('should exit SYNC_FAILURES when the deletion threshold was exceeded', () => {
+      const report = createReport({
+        deletions: { policy: 'mark', missingIds: ['campaign_2'], removedCount: 0, aborted: true },
+      });
+
+      expect(printSyncReport(textOptions, report)).toBe(ExitCode.SYNC_FAILURES);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Deletion threshold exceeded: 1 campaigns')
+      );
+    });
+
+    it('should exit INTERRUPTED for a resumable partial run', () => {
+      const report = createReport({ interrupted: true, failureCount: 1 });
+
+      expect(printSyncReport(textOptions, report)).toBe(ExitCode.INTERRUPTED);
+    });
+
+    it('should print the report as JSON with serialized errors', () => {
+      const report = createReport({
+        successCount: 0,
+        failureCount: 1,
+        results: [{
+          campaignId: 'campaign_1',
+          success: false,
+          error: new TimeoutError('slow'),
+          retries: 0,
+          attempts: [],
+          backoffMs: 0,
+          duration: 10,
+        }],
+      });
+
+      printSyncReport(jsonOptions, report);
+
+      const printed = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(printed.runId).toBe('run_1');
+      expect(printed.results[0].error).toEqual({
+        name: 'TimeoutError',
+        code: 'TIMEOUT',
+        message: 'slow',
+      });
+    });
+  });
+
+  describe('healthCommand', () => {
+    const createContext = (connected: boolean) => ({
+      pool: { isConnected: async () => connected },
+      migrationRunner: { status: async () => [] },
+      tokenManager: { getToken: async () => createMockToken() },
+    } as unknown as AppContext);
+
+    it('should succeed when every check passes', async () => {
+      expect(await healthCommand(createContext(true), jsonOptions)).toBe(ExitCode.SUCCESS);
+
+      const printed = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(printed.healthy).toBe(true);
+    });
+
+    it('should exit UNHEALTHY when a check fails', async () => {
+      expect(await healthCommand(createContext(false), textOptions)).toBe(ExitCode.UNHEALTHY);
+    });
+  });
+
+  describe('dlqCommand', () => {
+    const letters: DeadLetter[] = createMockCampaigns(2).map(campaign => ({
+      campaignId: campaign.id,
+      runId: 'run_1',
+      campaign,
+      errorCode: 'TIMEOUT',
+      errorMessage: 'slow',
+      failureCount: 1,
+      firstFailedAt: new Date('2025-01-01T00:00:00Z'),
+      lastFailedAt: new Date('2025-01-01T00:00:00Z'),
+    }));
+
+    const createContext = (upstream: Campaign[] = letters.map(letter => letter.campaign)) => {
+      const executeSync = jest.fn(async () => createReport({ totalCampaigns: 2, successCount: 2 }));
+      const createOrchestrator = jest.fn(
+        (_overrides: Partial<SyncOrchestratorDependencies>) => ({ executeSync })
+      );
+      const getCampaign = jest.fn(async (id: string) => {
+        const campaign = upstream.find(c => c.id === id);
+        if (!campaign) {
+          throw new ApiError('Campaign not found', 404);
+        }
+        return campaign;
+      });
+      const deadLetterRepository = {
+        listDeadLetters: jest.fn(async () => letters),
+        removeDeadLetters: jest.fn(async (ids: string[]) => ids.length),
+      };
+      const ctx = {
+        deadLetterRepository,
+        campaignService: { getCampaign },
+        migrationRunner: { up: jest.fn(async () => []) },
+        createOrchestrator,
+      } as unknown as AppContext;
+
+      return { ctx, createOrchestrator, executeSync, getCampaign, deadLetterRepository };
+    };
+
+    it('should list dead letters as JSON', async () => {
+      const { ctx } = createContext();
+
+      expect(await dlqCommand(ctx, ['list'], jsonOptions)).toBe(ExitCode.SUCCESS);
+
+      const printed = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(printed.map((letter: DeadLetter) => letter.campaignId)).toEqual([
+        'campaign_1',
+        'campaign_2',
+      ]);
+    });
+
+    it('should replay re-fetched campaigns as a subset run without listing upstream', async () => {
+      const current = { ...letters[1].campaign, name: 'Renamed since the failure' };
+      const { ctx, createOrchestrator, executeSync, getCampaign } = createContext([current]);
+
+      expect(await dlqCommand(ctx, ['replay', 'campaign_2'], textOptions)).toBe(ExitCode.SUCCESS);
+
+      const overrides = createOrchestrator.mock.calls[0][0];
+      expect(await overrides.fetchAllCampaignsFn!()).toEqual([current]);
+      expect(getCampaign).toHaveBeenCalledWith('campaign_2', undefined);
+      expect(overrides.streamCampaignsFn).toBeUndefined();
+      expect(overrides.filter).toEqual({ includeIds: ['campaign_2'] });
+      expect(overrides.mode).toBe('full');
+      expect(executeSync).toHaveBeenCalled();
+    });
+
+    it('should replay every dead letter when no IDs are given', async () => {
+      const { ctx, createOrchestrator } = createContext();
+
+      await dlqCommand(ctx, ['replay'], textOptions);
+
+      expect(createOrchestrator.mock.calls[0][0].filter).toEqual({
+        includeIds: ['campaign_1', 'campaign_2'],
+      });
+    });
+
+    it('should drop dead letters of campaigns no longer upstream', async () => {
+      const { ctx, createOrchestrator, deadLetterRepository } = createContext([letters[0].campaign]);
+
+      await dlqCommand(ctx, ['replay'], textOptions);
+
+      const overrides = createOrchestrator.mock.calls[0][0];
+      expect(await overrides.fetchAllCampaignsFn!()).toEqual([letters[0].campaign]);
+      expect(deadLetterRepository.removeDeadLetters).toHaveBeenCalledWith(['campaign_2']);
+    });
+
+    it('should keep dead letters of missing campaigns on a dry run', async () => {
+      const { ctx, createOrchestrator, deadLetterRepository } = createContext([]);
+      const planSync = jest.fn(async () => {
+        await createOrchestrator.mock.calls[0][0].fetchAllCampaignsFn!();
+        return buildSyncPlan('full', [], []);
+      });
+      createOrchestrator.mockImplementation(() => ({ executeSync: jest.fn(), planSync }) as never);
+
+      await dlqCommand(ctx, ['replay'], parseCliArgs(['--dry-run']).options);
+
+      expect(planSync).toHaveBeenCalled();
+      expect(deadLetterRepository.removeDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should reject campaigns that are not dead-lettered', async () => {
+      const { ctx, executeSync } = createContext();
+
+      await expect(dlqCommand(ctx, ['replay', 'campaign_9'], textOptions))
+        .rejects.toBeInstanceOf(ValidationError);
+      expect(executeSync).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * CLI dispatcher unit tests
+ */
+
+import { handleCliError, runCli } from '../../../src/cli';
+import { ExitCode } from '../../../src/cli/types';
+import {
+  ConfigError,
+  DatabaseError,
+  ValidationError,
+} from '../../../src/utils/ErrorHandler';
+
+describe('CLI', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.AD_PLATFORM_API_URL = 'http://api.test';
+    process.env.API_EMAIL = 'test@example.com';
+    process.env.API_PASSWORD = 'secret';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  describe('Exit codes', () => {
+    it('should map the documented exit code values', () => {
+      expect(ExitCode).toMatchObject({
+        SUCCESS: 0,
+        SYNC_FAILURES: 1,
+        FATAL: 2,
+        CONFIG_ERROR: 3,
+        UNHEALTHY: 4,
+        INTERRUPTED: 5,
+        USAGE: 64,
+      });
+    });
+
+    it('should map validation errors to USAGE', () => {
+      expect(handleCliError(new ValidationError('bad flag'))).toBe(ExitCode.USAGE);
+    });
+
+    it('should map configuration errors to CONFIG_ERROR', () => {
+      expect(handleCliError(new ConfigError('missing key'))).toBe(ExitCode.CONFIG_ERROR);
+    });
+
+    it('should map any other error to FATAL', () => {
+      expect(handleCliError(new DatabaseError('connection refused'))).toBe(ExitCode.FATAL);
+      expect(handleCliError(new Error('unexpected'))).toBe(ExitCode.FATAL);
+    });
+  });
+
+  describe('runCli', () => {
+    it('should print usage and exit USAGE without a command', async () => {
+      expect(await runCli([])).toBe(ExitCode.USAGE);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+    });
+
+    it('should print usage and succeed with --help', async () => {
+      expect(await runCli(['--help'])).toBe(ExitCode.SUCCESS);
+    });
+
+    it('should exit USAGE for an unknown command or option', async () => {
+      expect(await runCli(['frobnicate'])).toBe(ExitCode.USAGE);
+      expect(await runCli(['sync', '--bogus'])).toBe(ExitCode.USAGE);
+    });
+
+    it('should exit CONFIG_ERROR when the configuration is invalid', async () => {
+      delete process.env.API_EMAIL;
+
+      expect(await runCli(['config', 'print'])).toBe(ExitCode.CONFIG_ERROR);
+    });
+
+    it('should print masked configuration as JSON with --json', async () => {
+      expect(await runCli(['config', 'print', '--json'])).toBe(ExitCode.SUCCESS);
+
+      const printed = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(printed.api.email).toBe('test@example.com');
+      expect(printed.api.password).toBe('***REDACTED***');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * CampaignRepository unit tests
+ */
+
+import { CampaignRepository } from '../../../src/database/CampaignRepository';
+import { MetricsRepository } from '../../../src/database/MetricsRepository';
+import { DatabaseError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaign, createMockCampaigns } from '../../helpers/fixtures';
+import { createMockPool } from '../../helpers/MockPool';
+
+describe('CampaignRepository', () => {
+  describe('Saving with metrics snapshots', () => {
+    it('should write the campaign and its snapshot in one transaction', async () => {
+      const { pool, client, queries } = createMockPool();
+      const repository = new CampaignRepository(pool, new MetricsRepository(pool));
+
+      await repository.saveCampaign(createMockCampaign());
+
+      expect(queries.every(q => q.onClient)).toBe(true);
+      expect(queries.map(q => q.text.split(/\s+/).slice(0, 3).join(' '))).toEqual([
+        'BEGIN',
+        'INSERT INTO campaigns',
+        'INSERT INTO campaign_metrics_snapshots',
+        'COMMIT',
+      ]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back the campaign when the snapshot fails', async () => {
+      const { pool, client, queries } = createMockPool(text => {
+        if (text.startsWith('INSERT INTO campaign_metrics_snapshots')) {
+          throw new Error('disk full');
+        }
+        return undefined;
+      });
+      const repository = new CampaignRepository(pool, new MetricsRepository(pool));
+
+      await expect(repository.saveCampaign(createMockCampaign()))
+        .rejects.toBeInstanceOf(DatabaseError);
+
+      expect(queries.map(q => q.text)).toContain('ROLLBACK');
+      expect(queries.map(q => q.text)).not.toContain('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should record a snapshot per campaign in a batch', async () => {
+      const { pool, queries } = createMockPool();
+      const repository = new CampaignRepository(pool, new MetricsRepository(pool));
+
+      await repository.saveCampaigns(createMockCampaigns(3));
+
+      const snapshots = queries.filter(q =>
+        q.text.startsWith('INSERT INTO campaign_metrics_snapshots')
+      );
+      expect(snapshots).toHaveLength(3);
+      expect(snapshots.every(q => q.onClient)).toBe(true);
+    });
+
+    it('should save without snapshots when no metrics repository is given', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new CampaignRepository(pool).saveCampaign(createMockCampaign());
+
+      expect(queries.map(q => q.text)).not.toContainEqual(
+        expect.stringContaining('campaign_metrics_snapshots')
+      );
+    });
+  });
+});
\ No newline at end of file
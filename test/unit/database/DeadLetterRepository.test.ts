@@ -0,0 +1,125 @@
+/**
+ * DeadLetterRepository unit tests
+ */
+
+import { DeadLetterRepository } from '../../../src/database/DeadLetterRepository';
+import { FailedCampaign } from '../../../src/types';
+import { DatabaseError, TimeoutError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaign, createMockCampaigns } from '../../helpers/fixtures';
+import { createMockPool } from '../../helpers/MockPool';
+
+describe('DeadLetterRepository', () => {
+  const createFailure = (id: string, error?: Error): FailedCampaign => ({
+    campaign: createMockCampaign({ id }),
+    result: {
+      campaignId: id,
+      success: false,
+      error,
+      retries: 3,
+      attempts: [],
+      backoffMs: 0,
+      duration: 10,
+    },
+  });
+
+  describe('addDeadLetters', () => {
+    it('should upsert failures as parallel arrays, bumping repeat failures', async () => {
+      const { pool, queries } = createMockPool();
+      const failures = [
+        createFailure('campaign_1', new TimeoutError('slow')),
+        createFailure('campaign_2'),
+      ];
+
+      await new DeadLetterRepository(pool).addDeadLetters('run_1', failures);
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].text).toMatch(/^INSERT INTO dead_letter_campaigns/);
+      expect(queries[0].text).toContain('failure_count = dead_letter_campaigns.failure_count + 1');
+      expect(queries[0].params).toEqual([
+        'run_1',
+        ['campaign_1', 'campaign_2'],
+        failures.map(f => JSON.stringify(f.campaign)),
+        ['TIMEOUT', null],
+        ['slow', null],
+      ]);
+    });
+
+    it('should skip the query when nothing failed', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new DeadLetterRepository(pool).addDeadLetters('run_1', []);
+
+      expect(queries).toHaveLength(0);
+    });
+
+    it('should wrap failures in a DatabaseError', async () => {
+      const { pool } = createMockPool(() => {
+        throw new Error('connection lost');
+      });
+
+      await expect(
+        new DeadLetterRepository(pool).addDeadLetters('run_1', [createFailure('campaign_1')])
+      ).rejects.toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe('listDeadLetters', () => {
+    it('should map rows with their stored payloads', async () => {
+      const [campaign] = createMockCampaigns(1);
+      const failedAt = new Date('2025-01-01T00:00:00Z');
+      const { pool, queries } = createMockPool(() => [{
+        campaign_id: campaign.id,
+        run_id: 'run_1',
+        payload: campaign,
+        error_code: 'TIMEOUT',
+        error_message: 'slow',
+        failure_count: '2',
+        first_failed_at: failedAt,
+        last_failed_at: failedAt,
+      }]);
+
+      const letters = await new DeadLetterRepository(pool).listDeadLetters(10);
+
+      expect(queries[0].params).toEqual([10]);
+      expect(letters).toEqual([{
+        campaignId: campaign.id,
+        runId: 'run_1',
+        campaign,
+        errorCode: 'TIMEOUT',
+        errorMessage: 'slow',
+        failureCount: 2,
+        firstFailedAt: failedAt,
+        lastFailedAt: failedAt,
+      }]);
+    });
+
+    it('should list every dead letter without a limit', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new DeadLetterRepository(pool).listDeadLetters();
+
+      expect(queries[0].params).toEqual([null]);
+    });
+  });
+
+  describe('removeDeadLetters', () => {
+    it('should delete by ID and return the removed count', async () => {
+      const { pool, queries } = createMockPool(() => [{}, {}]);
+
+      const removed = await new DeadLetterRepository(pool).removeDeadLetters([
+        'campaign_1',
+        'campaign_2',
+      ]);
+
+      expect(removed).toBe(2);
+      expect(queries[0].params).toEqual([['campaign_1', 'campaign_2']]);
+    });
+
+    it('should skip the query for an empty list', async () => {
+      const { pool, queries } = createMockPool();
+
+      expect(await new DeadLetterRepository(pool).removeDeadLetters([])).toBe(0);
+      expect(queries).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * MetricsRepository unit tests
+ */
+
+import { MetricsRepository } from '../../../src/database/MetricsRepository';
+import { DatabaseError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaign } from '../../helpers/fixtures';
+import { createMockPool } from '../../helpers/MockPool';
+
+describe('MetricsRepository', () => {
+  describe('recordSnapshot', () => {
+    it('should insert the campaign metrics', async () => {
+      const { pool, queries } = createMockPool();
+      const campaign = createMockCampaign();
+
+      await new MetricsRepository(pool).recordSnapshot(campaign);
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].text).toMatch(/^INSERT INTO campaign_metrics_snapshots/);
+      expect(queries[0].params).toEqual([
+        campaign.id,
+        campaign.status,
+        campaign.budget,
+        campaign.impressions,
+        campaign.clicks,
+        campaign.conversions,
+      ]);
+    });
+
+    it('should write through the given executor instead of the pool', async () => {
+      const { pool, client, queries } = createMockPool();
+
+      await new MetricsRepository(pool).recordSnapshot(createMockCampaign(), client);
+
+      expect(queries.map(q => q.onClient)).toEqual([true]);
+    });
+
+    it('should wrap failures in a DatabaseError', async () => {
+      const { pool } = createMockPool(() => {
+        throw new Error('relation does not exist');
+      });
+
+      await expect(new MetricsRepository(pool).recordSnapshot(createMockCampaign()))
+        .rejects.toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe('getTimeSeries', () => {
+    it('should map snapshot rows and pass an open range as nulls', async () => {
+      const capturedAt = new Date('2025-01-02T10:00:00Z');
+      const { pool, queries } = createMockPool(() => [{
+        campaign_id: 'campaign_1',
+        status: 'active',
+        budget: '5000.00',
+        impressions: '100',
+        clicks: '10',
+        conversions: '1',
+        captured_at: capturedAt,
+      }]);
+
+      const series = await new MetricsRepository(pool).getTimeSeries('campaign_1');
+
+      expect(queries[0].params).toEqual(['campaign_1', null, null]);
+      expect(series).toEqual([{
+        campaignId: 'campaign_1',
+        status: 'active',
+        budget: 5000,
+        impressions: 100,
+        clicks: 10,
+        conversions: 1,
+        capturedAt,
+      }]);
+    });
+
+    it('should pass the range bounds', async () => {
+      const { pool, queries } = createMockPool();
+      const from = new Date('2025-01-01T00:00:00Z');
+      const to = new Date('2025-02-01T00:00:00Z');
+
+      await new MetricsRepository(pool).getTimeSeries('campaign_1', { from, to });
+
+      expect(queries[0].params).toEqual(['campaign_1', from, to]);
+    });
+  });
+
+  describe('getDailyDeltas', () => {
+    it('should take the last snapshot of each day and diff consecutive days', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new MetricsRepository(pool).getDailyDeltas('campaign_1');
+
+      expect(queries[0].text).toContain('DISTINCT ON (captured_at::date)');
+      expect(queries[0].text).toContain('ORDER BY captured_at::date, captured_at DESC');
+      expect(queries[0].text).toContain('LAG(impressions) OVER (ORDER BY day)');
+    });
+
+    it('should map rows, keeping null deltas for the first day', async () => {
+      const { pool } = createMockPool(() => [
+        {
+          day: '2025-01-01',
+          impressions: 100,
+          clicks: 10,
+          conversions: 1,
+          impressions_delta: null,
+          clicks_delta: null,
+          conversions_delta: null,
+        },
+        {
+          day: new Date(2025, 0, 2),
+          impressions: 150,
+          clicks: 12,
+          conversions: 1,
+          impressions_delta: '50',
+          clicks_delta: '2',
+          conversions_delta: '0',
+        },
+      ]);
+
+      const deltas = await new MetricsRepository(pool).getDailyDeltas('campaign_1');
+
+      expect(deltas).toEqual([
+        {
+          date: '2025-01-01',
+          impressions: 100,
+          clicks: 10,
+          conversions: 1,
+          impressionsDelta: null,
+          clicksDelta: null,
+          conversionsDelta: null,
+        },
+        {
+          date: '2025-01-02',
+          impressions: 150,
+          clicks: 12,
+          conversions: 1,
+          impressionsDelta: 50,
+          clicksDelta: 2,
+          conversionsDelta: 0,
+        },
+      ]);
+    });
+  });
+});
\ No newline at end of file
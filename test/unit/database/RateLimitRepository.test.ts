@@ -0,0 +1,70 @@
+/**
+ * RateLimitRepository unit tests
+ */
+
+import { RateLimitRepository } from '../../../src/database/RateLimitRepository';
+import { DatabaseError } from '../../../src/utils/ErrorHandler';
+import { createMockPool } from '../../helpers/MockPool';
+
+describe('RateLimitRepository', () => {
+  describe('acquireSlot', () => {
+    const createPool = (slotCount: number, retryAfterMs: string | null = null) =>
+      createMockPool(text =>
+        text.includes('COUNT(*) AS slot_count')
+          ? [{ slot_count: String(slotCount), retry_after_ms: retryAfterMs }]
+          : undefined
+      );
+
+    it('should claim a slot under the advisory lock in one transaction', async () => {
+      const { pool, client, queries } = createPool(2);
+
+      const slot = await new RateLimitRepository(pool).acquireSlot('sync:default', 5, 60000);
+
+      expect(slot).toEqual({ acquired: true, remaining: 2, retryAfterMs: 0 });
+      expect(queries.every(q => q.onClient)).toBe(true);
+      expect(queries[0].text).toBe('BEGIN');
+      expect(queries[1]).toMatchObject({
+        text: 'SELECT pg_advisory_xact_lock(hashtext($1))',
+        params: ['sync:default'],
+      });
+      expect(queries[2].text).toMatch(/^DELETE FROM rate_limit_slots/);
+      expect(queries[2].params).toEqual(['sync:default', 60000]);
+      expect(queries[3].params).toEqual(['sync:default', 60000]);
+      expect(queries[4].text).toMatch(/^INSERT INTO rate_limit_slots/);
+      expect(queries[5].text).toBe('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should report when the oldest slot frees up once the window is full', async () => {
+      const { pool, queries } = createPool(5, '1234');
+
+      const slot = await new RateLimitRepository(pool).acquireSlot('sync:default', 5, 60000);
+
+      expect(slot).toEqual({ acquired: false, remaining: 0, retryAfterMs: 1234 });
+      expect(queries.some(q => q.text.startsWith('INSERT'))).toBe(false);
+      expect(queries[queries.length - 1].text).toBe('COMMIT');
+    });
+
+    it('should wait at least a millisecond when the slot is already due', async () => {
+      const { pool } = createPool(5, '-3');
+
+      const slot = await new RateLimitRepository(pool).acquireSlot('sync:default', 5, 60000);
+
+      expect(slot.retryAfterMs).toBe(1);
+    });
+
+    it('should roll back and wrap failures in a DatabaseError', async () => {
+      const { pool, client, queries } = createMockPool(text => {
+        if (text.startsWith('SELECT pg_advisory_xact_lock')) {
+          throw new Error('lock timeout');
+        }
+        return undefined;
+      });
+
+      await expect(new RateLimitRepository(pool).acquireSlot('sync:default', 5, 60000))
+        .rejects.toBeInstanceOf(DatabaseError);
+      expect(queries.map(q => q.text)).toContain('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,288 @@
+/**
+ * SyncRunRepository unit tests
+ */
+
+import { SyncRunRepository } from '../../../src/database/SyncRunRepository';
+import { SyncReport, SyncResult } from '../../../src/types';
+import { DatabaseError, TimeoutError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaigns } from '../../helpers/fixtures';
+import { createMockPool } from '../../helpers/MockPool';
+
+describe('SyncRunRepository', () => {
+  const createResult = (overrides: Partial<SyncResult> = {}): SyncResult => ({
+    campaignId: 'campaign_1',
+    success: true,
+    retries: 0,
+    attempts: [],
+    backoffMs: 0,
+    duration: 100,
+    ...overrides,
+  });
+
+  const createReport = (overrides: Partial<SyncReport> = {}): SyncReport => ({
+    runId: 'run_1',
+    mode: 'full',
+    startTime: new Date('2025-01-01T00:00:00Z'),
+    endTime: new Date('2025-01-01T00:01:00Z'),
+    duration: 60000,
+    totalCampaigns: 2,
+    skippedCount: 0,
+    completedCount: 0,
+    filter: null,
+    filteredOutCount: 0,
+    successCount: 2,
+    failureCount: 0,
+    retryCount: 0,
+    backoffMs: 0,
+    requeueCount: 0,
+    deadLetterCount: 0,
+    circuitTransitions: [],
+    deletions: null,
+    interrupted: false,
+    results: [],
+    failures: [],
+    ...overrides,
+  });
+
+  describe('startRun', () => {
+    it('should insert a running run', async () => {
+      const { pool, queries } = createMockPool();
+      const startedAt = new Date();
+
+      await new SyncRunRepository(pool).startRun('run_1', 'incremental', startedAt);
+
+      expect(queries[0].text).toMatch(/^INSERT INTO sync_runs/);
+      expect(queries[0].text).toContain(`'running'`);
+      expect(queries[0].params).toEqual(['run_1', 'incremental', startedAt]);
+    });
+
+    it('should wrap failures in a DatabaseError', async () => {
+      const { pool } = createMockPool(() => {
+        throw new Error('duplicate key');
+      });
+
+      await expect(new SyncRunRepository(pool).startRun('run_1', 'full', new Date()))
+        .rejects.toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe('addRunCampaigns', () => {
+    it('should pass IDs and JSON payloads as parallel arrays', async () => {
+      const { pool, queries } = createMockPool();
+      const campaigns = createMockCampaigns(2);
+
+      await new SyncRunRepository(pool).addRunCampaigns('run_1', campaigns);
+
+      expect(queries[0].params).toEqual([
+        'run_1',
+        ['campaign_1', 'campaign_2'],
+        campaigns.map(c => JSON.stringify(c)),
+      ]);
+      expect(queries[0].text).toContain('COALESCE(MAX(position), 0)');
+      expect(queries[0].text).toContain('ON CONFLICT (run_id, campaign_id) DO NOTHING');
+    });
+  });
+
+  describe('markCampaign', () => {
+    it('should update the campaign state within the run', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).markCampaign('run_1', 'campaign_1', 'failed');
+
+      expect(queries[0].text).toMatch(/^UPDATE sync_run_campaigns/);
+      expect(queries[0].params).toEqual(['run_1', 'campaign_1', 'failed']);
+    });
+  });
+
+  describe('getResumableRun', () => {
+    it('should return null when no unfinished run exists', async () => {
+      const { pool, queries } = createMockPool();
+
+      expect(await new SyncRunRepository(pool).getResumableRun()).toBeNull();
+      expect(queries[0].params).toEqual([null]);
+    });
+
+    it('should return the campaigns that did not succeed', async () => {
+      const campaigns = createMockCampaigns(3);
+      const startedAt = new Date('2025-01-01T00:00:00Z');
+      const { pool, queries } = createMockPool(text => {
+        if (text.includes('FROM sync_runs')) {
+          return [{ id: 'run_1', mode: 'full', started_at: startedAt, listing_complete: false }];
+        }
+        return [
+          { payload: campaigns[0], state: 'succeeded' },
+          { payload: campaigns[1], state: 'failed' },
+          { payload: campaigns[2], state: 'pending' },
+        ];
+      });
+
+      const run = await new SyncRunRepository(pool).getResumableRun('run_1');
+
+      expect(queries[0].params).toEqual(['run_1']);
+      expect(run).toEqual({
+        runId: 'run_1',
+        mode: 'full',
+        startedAt,
+        campaigns: [campaigns[1], campaigns[2]],
+        completedCount: 1,
+        recordedIds: ['campaign_1', 'campaign_2', 'campaign_3'],
+        listingComplete: false,
+      });
+    });
+
+    it('should not resume completed or failed runs', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).getResumableRun();
+
+      expect(queries[0].text).toContain(`status IN ('running', 'interrupted')`);
+    });
+  });
+
+  describe('markListingComplete', () => {
+    it('should flag the run listing as complete', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).markListingComplete('run_1');
+
+      expect(queries[0].text).toContain('SET listing_complete = TRUE');
+      expect(queries[0].params).toEqual(['run_1']);
+    });
+  });
+
+  describe('failRun', () => {
+    it('should mark the run failed', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).failRun('run_1');
+
+      expect(queries[0].text).toContain(`SET status = 'failed'`);
+      expect(queries[0].params).toEqual(['run_1']);
+    });
+
+    it('should wrap query errors in DatabaseError', async () => {
+      const { pool } = createMockPool(() => {
+        throw new Error('connection lost');
+      });
+
+      await expect(new SyncRunRepository(pool).failRun('run_1'))
+        .rejects.toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe('saveRun', () => {
+    it('should upsert the run and its results in one transaction', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).saveRun(createReport({
+        results: [createResult(), createResult({ campaignId: 'campaign_2' })],
+      }));
+
+      expect(queries.every(q => q.onClient)).toBe(true);
+      expect(queries[0].text).toBe('BEGIN');
+      expect(queries[1].text).toMatch(/^INSERT INTO sync_runs/);
+      expect(queries[1].params[2]).toBe('completed');
+      expect(queries[2].text).toMatch(/^INSERT INTO sync_run_results/);
+      expect(queries[3].text).toBe('COMMIT');
+    });
+
+    it('should leave an interrupted run resumable', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).saveRun(createReport({ interrupted: true }));
+
+      expect(queries[1].params[2]).toBe('interrupted');
+    });
+
+    it('should add a resumed attempt to the counts already stored for the run', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).saveRun(createReport({ completedCount: 1 }));
+
+      const upsert = queries[1].text;
+      expect(upsert).toContain('success_count = sync_runs.success_count + EXCLUDED.success_count');
+      expect(upsert).toContain('retry_count = sync_runs.retry_count + EXCLUDED.retry_count');
+      expect(upsert).toContain('backoff_ms = sync_runs.backoff_ms + EXCLUDED.backoff_ms');
+      expect(upsert).toContain(
+        'total_campaigns = GREATEST(sync_runs.total_campaigns, EXCLUDED.total_campaigns)'
+      );
+      expect(upsert).toContain('failure_count = EXCLUDED.failure_count');
+    });
+
+    it('should send attempt error codes as text split back by string_to_array', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).saveRun(createReport({
+        results: [
+          createResult({
+            success: false,
+            error: new TimeoutError('slow'),
+            attempts: [
+              { attempt: 1, errorCode: 'TIMEOUT', errorMessage: 'slow', delayMs: 1 },
+              { attempt: 2, errorCode: null, errorMessage: 'boom', delayMs: 2 },
+            ],
+          }),
+          createResult({ campaignId: 'campaign_2' }),
+        ],
+      }));
+
+      const insert = queries[2];
+      expect(insert.text).toContain(`string_to_array(r.attempt_error_codes, ',')`);
+      expect(insert.params[5]).toEqual(['TIMEOUT', null]);
+      expect(insert.params[8]).toEqual(['TIMEOUT,UNKNOWN', '']);
+    });
+
+    it('should keep only the last result of a re-queued campaign', async () => {
+      const { pool, queries } = createMockPool();
+
+      await new SyncRunRepository(pool).saveRun(createReport({
+        results: [createResult({ success: false }), createResult({ success: true })],
+      }));
+
+      expect(queries[2].params[1]).toEqual(['campaign_1']);
+      expect(queries[2].params[2]).toEqual([true]);
+    });
+
+    it('should roll back when a statement fails', async () => {
+      const { pool, client, queries } = createMockPool(text => {
+        if (text.startsWith('INSERT INTO sync_run_results')) {
+          throw new Error('constraint violation');
+        }
+        return undefined;
+      });
+
+      await expect(new SyncRunRepository(pool).saveRun(createReport({
+        results: [createResult()],
+      }))).rejects.toBeInstanceOf(DatabaseError);
+
+      expect(queries.map(q => q.text)).toContain('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('getRunFailures', () => {
+    it('should map the stored attempt error codes array', async () => {
+      const { pool } = createMockPool(() => [{
+        campaign_id: 'campaign_1',
+        retries: 2,
+        backoff_ms: '300',
+        attempt_error_codes: ['TIMEOUT', 'UNKNOWN'],
+        duration_ms: '1500',
+        error_code: 'TIMEOUT',
+        error_message: 'slow',
+      }]);
+
+      const failures = await new SyncRunRepository(pool).getRunFailures('run_1');
+
+      expect(failures).toEqual([{
+        campaignId: 'campaign_1',
+        retries: 2,
+        backoffMs: 300,
+        attemptErrorCodes: ['TIMEOUT', 'UNKNOWN'],
+        durationMs: 1500,
+        errorCode: 'TIMEOUT',
+        errorMessage: 'slow',
+      }]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * MigrationRunner unit tests
+ */
+
+import { MigrationRunner, computeChecksum } from '../../../src/database/migrations';
+import { IConnectionPool, Migration } from '../../../src/database/types';
+import { MigrationError } from '../../../src/utils/ErrorHandler';
+
+/**
+ * Fake pool that keeps schema_migrations rows in memory and records executed SQL
+ */
+function createFakePool(locked = true) {
+  const rows = new Map<number, { version: number; name: string; checksum: string; applied_at: Date }>();
+  const executed: string[] = [];
+
+  const client = {
+    query: jest.fn(async (text: string, params: unknown[] = []) => {
+      executed.push(text.trim());
+
+      if (text.includes('pg_try_advisory_lock')) {
+        return { rows: [{ locked }] };
+      }
+      if (text.startsWith('INSERT INTO schema_migrations')) {
+        const [version, name, checksum] = params as [number, string, string];
+        rows.set(version, { version, name, checksum, applied_at: new Date() });
+      }
+      if (text.startsWith('DELETE FROM schema_migrations')) {
+        rows.delete(params[0] as number);
+      }
+      if (text.startsWith('SELECT version, name, checksum')) {
+        return { rows: Array.from(rows.values()) };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+
+  const pool = {
+    getClient: jest.fn(async () => client),
+  } as unknown as IConnectionPool;
+
+  return { pool, client, rows, executed };
+}
+
+describe('MigrationRunner', () => {
+  const migrations: Migration[] = [
+    { version: 2, name: 'second', up: 'CREATE TABLE b (id INT)', down: 'DROP TABLE b' },
+    { version: 1, name: 'first', up: 'CREATE TABLE a (id INT)', down: 'DROP TABLE a' },
+  ];
+
+  it('should apply pending migrations in version order', async () => {
+    const { pool, rows, executed } = createFakePool();
+    const runner = new MigrationRunner(pool, migrations);
+
+    const applied = await runner.up();
+
+    expect(applied.map(m => m.version)).toEqual([1, 2]);
+    expect(executed.indexOf('CREATE TABLE a (id INT)')).toBeLessThan(
+      executed.indexOf('CREATE TABLE b (id INT)')
+    );
+    expect(rows.get(1)?.checksum).toBe(computeChecksum(migrations[1]));
+  });
+
+  it('should not re-apply migrations', async () => {
+    const { pool } = createFakePool();
+    const runner = new MigrationRunner(pool, migrations);
+
+    await runner.up();
+    const applied = await runner.up();
+
+    expect(applied).toHaveLength(0);
+  });
+
+  it('should wait for the advisory lock when another process holds it', async () => {
+    const { pool, executed } = createFakePool(false);
+    const runner = new MigrationRunner(pool, migrations);
+
+    await runner.up();
+
+    expect(executed).toContain('SELECT pg_advisory_lock($1)');
+    expect(executed).toContain('SELECT pg_advisory_unlock($1)');
+  });
+
+  it('should refuse to run when an applied migration was modified', async () => {
+    const { pool } = createFakePool();
+    await new MigrationRunner(pool, migrations).up();
+
+    const modified = migrations.map(m =>
+      m.version === 1 ? { ...m, up: 'CREATE TABLE a (id BIGINT)' } : m
+    );
+    const runner = new MigrationRunner(pool, modified);
+
+    await expect(runner.up()).rejects.toThrow(MigrationError);
+
+    const statuses = await runner.status();
+    expect(statuses.find(s => s.version === 1)?.state).toBe('modified');
+  });
+
+  it('should roll back the latest migrations', async () => {
+    const { pool, rows, executed } = createFakePool();
+    const runner = new MigrationRunner(pool, migrations);
+    await runner.up();
+
+    const rolledBack = await runner.down(1);
+
+    expect(rolledBack.map(m => m.version)).toEqual([2]);
+    expect(executed).toContain('DROP TABLE b');
+    expect(rows.has(1)).toBe(true);
+    expect(rows.has(2)).toBe(false);
+
+    const statuses = await runner.status();
+    expect(statuses.map(s => s.state)).toEqual(['applied', 'pending']);
+  });
+
+  it('should roll back the transaction when a migration fails', async () => {
+    const { pool, client, rows } = createFakePool();
+    const failing: Migration[] = [
+      { version: 1, name: 'broken', up: 'BROKEN SQL', down: '' },
+    ];
+    const original = client.query.getMockImplementation()!;
+    client.query.mockImplementation(async (text: string, params?: unknown[]) => {
+      if (text === 'BROKEN SQL') {
+        throw new Error('syntax error');
+      }
+      return original(text, params);
+    });
+
+    await expect(new MigrationRunner(pool, failing).up()).rejects.toThrow(
+      /broken \(up\) failed/
+    );
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(rows.size).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * CampaignWorker unit tests
+ */
+
+import { CampaignWorker } from '../../../src/sync/CampaignWorker';
+import { RetryAttempt } from '../../../src/types';
+import { createMockCampaign } from '../../helpers/fixtures';
+
+describe('CampaignWorker', () => {
+  const attempt = (n: number, errorCode: string, delayMs: number): RetryAttempt => ({
+    attempt: n,
+    errorCode,
+    errorMessage: `${errorCode} on attempt ${n}`,
+    delayMs,
+  });
+
+  describe('Retry Accounting', () => {
+    it('should report no retries when the first attempt succeeds', async () => {
+      const worker = new CampaignWorker({
+        syncCampaignFn: jest.fn(async () => undefined),
+        saveCampaignFn: jest.fn(async () => undefined),
+      });
+
+      const result = await worker.syncCampaign(createMockCampaign());
+
+      expect(result.success).toBe(true);
+      expect(result.retries).toBe(0);
+      expect(result.attempts).toEqual([]);
+      expect(result.backoffMs).toBe(0);
+    });
+
+    it('should record retried attempts and total backoff', async () => {
+      const worker = new CampaignWorker({
+        syncCampaignFn: jest.fn(async (_id, onRetry) => {
+          onRetry?.(attempt(1, 'RATE_LIMIT_EXCEEDED', 2000));
+          onRetry?.(attempt(2, 'TIMEOUT', 500));
+        }),
+        saveCampaignFn: jest.fn(async () => undefined),
+      });
+
+      const result = await worker.syncCampaign(createMockCampaign());
+
+      expect(result.success).toBe(true);
+      expect(result.retries).toBe(2);
+      expect(result.attempts.map(a => a.errorCode)).toEqual(['RATE_LIMIT_EXCEEDED', 'TIMEOUT']);
+      expect(result.backoffMs).toBe(2500);
+    });
+
+    it('should keep retry accounting when the sync finally fails', async () => {
+      const worker = new CampaignWorker({
+        syncCampaignFn: jest.fn(async (_id, onRetry) => {
+          onRetry?.(attempt(1, 'SERVICE_UNAVAILABLE', 1000));
+          throw new Error('still unavailable');
+        }),
+        saveCampaignFn: jest.fn(async () => undefined),
+      });
+
+      const result = await worker.syncCampaign(createMockCampaign());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('still unavailable');
+      expect(result.retries).toBe(1);
+      expect(result.backoffMs).toBe(1000);
+    });
+  });
+});
\ No newline at end of file
@@ -3,7 +3,8 @@
  */
 
 import { ConcurrencyQueue } from '../../../src/sync/ConcurrencyQueue';
-import { sleep, createCallCounter } from '../../helpers/testUtils';
+import { CancelledError, QueueClosedError } from '../../../src/utils/ErrorHandler';
+import { createDeferred, sleep } from '../../helpers/testUtils';
 
 describe('ConcurrencyQueue', () => {
   describe('Concurrency Control', () => {
@@ -59,8 +60,6 @@ describe('ConcurrencyQueue', () => {
 
     it('should handle task failures without blocking queue', async () => {
       const queue = new ConcurrencyQueue<string>(2);
-      
-      const results: Array<string | Error> = [];
 
       const successTask = async (id: string) => {
         await sleep(10);
@@ -131,10 +130,11 @@ describe('ConcurrencyQueue', () => {
       
       const executionOrder: string[] = [];
 
-      // First task to fill the concurrent slot
-      await queue.add(async () => {
+      // First task holds the concurrent slot until the others are queued
+      const release = createDeferred<void>();
+      const first = queue.add(async () => {
         executionOrder.push('first');
-        await sleep(50);
+        await release.promise;
         return 'first';
       });
 
@@ -163,7 +163,8 @@ describe('ConcurrencyQueue', () => {
         5 // Medium priority
       );
 
-      await Promise.all([lowPriority, highPriority, mediumPriority]);
+      release.resolve();
+      await Promise.all([first, lowPriority, highPriority, mediumPriority]);
 
       // Should execute in priority order after first
       expect(executionOrder).toEqual(['first', 'high', 'medium', 'low']);
@@ -381,4 +382,112 @@ describe('ConcurrencyQueue', () => {
       expect(queue.isIdle()).toBe(true);
     });
   });
+
+  describe('Backpressure', () => {
+    it('should wait until queued tasks start before accepting more', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+      const createTask = (value: number) => async () => {
+        await sleep(30);
+        return value;
+      };
+
+      queue.add(createTask(1));
+      queue.add(createTask(2));
+      queue.add(createTask(3));
+      expect(queue.getQueueLength()).toBe(2);
+
+      await queue.waitForCapacity(2);
+
+      expect(queue.getQueueLength()).toBe(1);
+      expect(queue.getActiveCount()).toBe(1);
+      await queue.waitForIdle();
+    });
+
+    it('should resolve immediately when below capacity', async () => {
+      const queue = new ConcurrencyQueue<number>(2);
+
+      await expect(queue.waitForCapacity(1)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Closing', () => {
+    it('should reject queued tasks and let active ones finish', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+
+      const active = queue.add(async () => {
+        await sleep(50);
+        return 1;
+      });
+      const queued = queue.add(async () => 2);
+
+      queue.close();
+
+      await expect(queued).rejects.toBeInstanceOf(QueueClosedError);
+      await expect(active).resolves.toBe(1);
+      expect(queue.isClosed()).toBe(true);
+    });
+
+    it('should reject tasks added after closing', async () => {
+      const queue = new ConcurrencyQueue<number>(2);
+      queue.close();
+
+      await expect(queue.add(async () => 1)).rejects.toBeInstanceOf(QueueClosedError);
+    });
+
+    it('should report whether active tasks drained before the deadline', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+      queue.add(async () => {
+        await sleep(500);
+        return 1;
+      });
+      queue.close();
+
+      expect(await queue.drain(100)).toBe(false);
+      expect(await queue.drain(1000)).toBe(true);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should reject a queued task when its signal aborts', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+      const controller = new AbortController();
+      const task = jest.fn(async () => 2);
+
+      const active = queue.add(async () => {
+        await sleep(50);
+        return 1;
+      });
+      const queued = queue.add(task, 0, controller.signal);
+
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(CancelledError);
+      expect(queue.getQueueLength()).toBe(0);
+      await expect(active).resolves.toBe(1);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should reject tasks added with an aborted signal', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(queue.add(async () => 1, 0, controller.signal))
+        .rejects.toBeInstanceOf(CancelledError);
+    });
+
+    it('should leave started tasks to handle the signal themselves', async () => {
+      const queue = new ConcurrencyQueue<number>(1);
+      const controller = new AbortController();
+
+      const active = queue.add(async () => {
+        await sleep(50);
+        return 1;
+      }, 0, controller.signal);
+      await sleep(10);
+      controller.abort();
+
+      await expect(active).resolves.toBe(1);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,925 @@
+/**
+ * SyncOrchestrator unit tests
+ */
+
+import { SyncOrchestrator } from '../../../src/sync/SyncOrchestrator';
+import { SyncOrchestratorDependencies } from '../../../src/sync/types';
+import { Campaign } from '../../../src/types';
+import { formatSyncPlan } from '../../../src/sync/SyncPlan';
+import {
+  budgetPriority,
+  stalenessPriority,
+  statusPriority,
+} from '../../../src/sync/CampaignPriority';
+import { computeCampaignHash } from '../../../src/utils/helpers';
+import { ConfigError } from '../../../src/utils/ErrorHandler';
+import { createMockCampaigns } from '../../helpers/fixtures';
+
+describe('SyncOrchestrator', () => {
+  const createDeps = (
+    campaigns: Campaign[],
+    overrides: Partial<SyncOrchestratorDependencies> = {}
+  ): SyncOrchestratorDependencies => ({
+    fetchAllCampaignsFn: jest.fn(async () => campaigns),
+    syncCampaignFn: jest.fn(async () => undefined),
+    saveCampaignFn: jest.fn(async () => undefined),
+    maxConcurrent: 2,
+    ...overrides,
+  });
+
+  describe('Incremental Sync', () => {
+    it('should sync every campaign in full mode', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeps(campaigns);
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.mode).toBe('full');
+      expect(report.totalCampaigns).toBe(3);
+      expect(report.skippedCount).toBe(0);
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back to full sync when no checkpoint exists', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeps(campaigns, {
+        mode: 'incremental',
+        getContentHashesFn: jest.fn(async () => new Map<string, string>()),
+        getCheckpointFn: jest.fn(async () => null),
+        saveCheckpointFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.mode).toBe('full');
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(3);
+      expect(deps.saveCheckpointFn).toHaveBeenCalledWith(
+        expect.objectContaining({ campaignCount: 3 })
+      );
+    });
+
+    it('should fall back to full sync when content hashes are unavailable', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeps(campaigns, {
+        mode: 'incremental',
+        getCheckpointFn: jest.fn(async () => ({
+          lastSyncedAt: new Date(),
+          campaignCount: 3,
+        })),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.mode).toBe('full');
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only sync new or changed campaigns', async () => {
+      const campaigns = createMockCampaigns(3);
+      const storedHashes = new Map([
+        [campaigns[0].id, computeCampaignHash(campaigns[0])],
+        [campaigns[1].id, computeCampaignHash({ ...campaigns[1], clicks: 1 })],
+      ]);
+      const deps = createDeps(campaigns, {
+        mode: 'incremental',
+        getContentHashesFn: jest.fn(async () => storedHashes),
+        getCheckpointFn: jest.fn(async () => ({
+          lastSyncedAt: new Date(),
+          campaignCount: 2,
+        })),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.mode).toBe('incremental');
+      expect(report.totalCampaigns).toBe(2);
+      expect(report.skippedCount).toBe(1);
+      expect(deps.syncCampaignFn).not.toHaveBeenCalledWith(
+        campaigns[0].id,
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should not advance the checkpoint when campaigns fail', async () => {
+      const campaigns = createMockCampaigns(2);
+      const deps = createDeps(campaigns, {
+        syncCampaignFn: jest.fn(async () => {
+          throw new Error('sync failed');
+        }),
+        saveCheckpointFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.failureCount).toBe(2);
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Report Persistence', () => {
+    it('should persist the report with its run ID', async () => {
+      const deps = createDeps(createMockCampaigns(2), {
+        saveReportFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.runId).toMatch(/^run_/);
+      expect(deps.saveReportFn).toHaveBeenCalledWith(report);
+    });
+
+    it('should include circuit breaker transitions from the run', async () => {
+      const transition = {
+        from: 'closed' as const,
+        to: 'open' as const,
+        at: new Date(),
+        reason: '5 consecutive failures',
+      };
+      const getCircuitTransitionsFn = jest.fn(() => [transition]);
+      const deps = createDeps(createMockCampaigns(1), { getCircuitTransitionsFn });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.circuitTransitions).toEqual([transition]);
+      expect(getCircuitTransitionsFn).toHaveBeenCalledWith(report.startTime);
+    });
+
+    it('should return the report even if persisting it fails', async () => {
+      const deps = createDeps(createMockCampaigns(2), {
+        saveReportFn: jest.fn(async () => {
+          throw new Error('database down');
+        }),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.successCount).toBe(2);
+    });
+  });
+
+  describe('Dry Run Plan', () => {
+    it('should classify campaigns without syncing or saving', async () => {
+      const [unchanged, updated, inserted, removed] = createMockCampaigns(4);
+      const deps = createDeps([unchanged, { ...updated, budget: 9000 }, inserted], {
+        getStoredCampaignsFn: jest.fn(async () => [
+          // Database rows come back with string numerics and TIMESTAMP dates
+          {
+            ...unchanged,
+            budget: '5000.00' as unknown as number,
+            created_at: new Date(2024, 11, 1) as unknown as string,
+          },
+          updated,
+          { ...removed, synced_at: new Date() },
+        ]),
+      });
+
+      const plan = await new SyncOrchestrator(deps).planSync();
+
+      expect(plan.mode).toBe('full');
+      expect(plan.toSyncCount).toBe(3);
+      expect(plan.inserts.map(c => c.id)).toEqual([inserted.id]);
+      expect(plan.updates).toEqual([
+        { campaign: { ...updated, budget: 9000 }, changes: [{ field: 'budget', from: 5000, to: 9000 }] },
+      ]);
+      expect(plan.unchanged).toEqual([unchanged.id]);
+      expect(plan.missingUpstream.map(c => c.id)).toEqual([removed.id]);
+      expect(deps.syncCampaignFn).not.toHaveBeenCalled();
+      expect(deps.saveCampaignFn).not.toHaveBeenCalled();
+    });
+
+    it('should only count new and changed campaigns in incremental mode', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeps(campaigns, {
+        mode: 'incremental',
+        getContentHashesFn: jest.fn(async () => new Map()),
+        getCheckpointFn: jest.fn(async () => ({ lastSyncedAt: new Date(), campaignCount: 2 })),
+        saveCheckpointFn: jest.fn(async () => undefined),
+        getStoredCampaignsFn: jest.fn(async () => campaigns.slice(0, 2)),
+      });
+
+      const plan = await new SyncOrchestrator(deps).planSync();
+
+      expect(plan.mode).toBe('incremental');
+      expect(plan.toSyncCount).toBe(1);
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+
+    it('should render field changes as text', async () => {
+      const [campaign] = createMockCampaigns(1);
+      const deps = createDeps([{ ...campaign, status: 'paused' }], {
+        getStoredCampaignsFn: jest.fn(async () => [campaign]),
+      });
+
+      const text = formatSyncPlan(await new SyncOrchestrator(deps).planSync(), 'text');
+
+      expect(text).toContain('~ 1 to update');
+      expect(text).toContain('status: "active" → "paused"');
+    });
+  });
+
+  describe('Upstream Deletions', () => {
+    const createDeletionDeps = (
+      campaigns: Campaign[],
+      storedIds: string[],
+      overrides: Partial<SyncOrchestratorDependencies> = {}
+    ) => createDeps(campaigns, {
+      deletionPolicy: 'mark',
+      maxDeletionPercent: 50,
+      getActiveCampaignIdsFn: jest.fn(async () => storedIds),
+      markDeletedFn: jest.fn(async (ids: string[]) => ids.length),
+      deleteCampaignFn: jest.fn(async () => undefined),
+      ...overrides,
+    });
+
+    it('should mark campaigns missing upstream as deleted', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeletionDeps(campaigns, ['campaign_1', 'campaign_2', 'campaign_3', 'campaign_old']);
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.markDeletedFn).toHaveBeenCalledWith(['campaign_old']);
+      expect(deps.deleteCampaignFn).not.toHaveBeenCalled();
+      expect(report.deletions).toEqual({
+        policy: 'mark',
+        missingIds: ['campaign_old'],
+        removedCount: 1,
+        aborted: false,
+      });
+    });
+
+    it('should hard delete campaigns with the delete policy', async () => {
+      const deps = createDeletionDeps(createMockCampaigns(3), ['campaign_1', 'campaign_2', 'campaign_old'], {
+        deletionPolicy: 'delete',
+      });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.deleteCampaignFn).toHaveBeenCalledWith('campaign_old');
+      expect(deps.markDeletedFn).not.toHaveBeenCalled();
+    });
+
+    it('should skip reconciliation when the threshold is exceeded', async () => {
+      const deps = createDeletionDeps(createMockCampaigns(1), ['campaign_1', 'campaign_2', 'campaign_3']);
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.deletions?.aborted).toBe(true);
+      expect(report.deletions?.removedCount).toBe(0);
+      expect(deps.markDeletedFn).not.toHaveBeenCalled();
+    });
+
+    it('should fail at construction when the policy has no removal function', () => {
+      const deps = createDeletionDeps(createMockCampaigns(1), ['campaign_1'], {
+        deletionPolicy: 'delete',
+        deleteCampaignFn: undefined,
+      });
+
+      expect(() => new SyncOrchestrator(deps)).toThrow(ConfigError);
+    });
+
+    it('should not reconcile with the ignore policy', async () => {
+      const deps = createDeletionDeps(createMockCampaigns(1), ['campaign_1', 'campaign_old'], {
+        deletionPolicy: 'ignore',
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.deletions).toBeNull();
+      expect(deps.getActiveCampaignIdsFn).not.toHaveBeenCalled();
+    });
+
+    it('should not reconcile when fetching fails', async () => {
+      const deps = createDeletionDeps([], ['campaign_1'], {
+        fetchAllCampaignsFn: jest.fn(async () => {
+          throw new Error('page 2 failed');
+        }),
+      });
+
+      await expect(new SyncOrchestrator(deps).executeSync()).rejects.toThrow('page 2 failed');
+      expect(deps.markDeletedFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Resumable Runs', () => {
+    it('should record the run and each campaign outcome', async () => {
+      const campaigns = createMockCampaigns(2);
+      const deps = createDeps(campaigns, {
+        syncCampaignFn: jest.fn(async (id: string) => {
+          if (id === 'campaign_2') {
+            throw new Error('sync failed');
+          }
+        }),
+        startRunFn: jest.fn(async () => undefined),
+        addRunCampaignsFn: jest.fn(async () => undefined),
+        markCampaignFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.startRunFn).toHaveBeenCalledWith(report.runId, 'full', report.startTime);
+      expect(deps.addRunCampaignsFn).toHaveBeenCalledWith(report.runId, campaigns);
+      expect(deps.markCampaignFn).toHaveBeenCalledWith(report.runId, 'campaign_1', 'succeeded');
+      expect(deps.markCampaignFn).toHaveBeenCalledWith(report.runId, 'campaign_2', 'failed');
+    });
+
+    it('should only sync remaining campaigns when resuming', async () => {
+      const campaigns = createMockCampaigns(3);
+      const deps = createDeps([], {
+        startRunFn: jest.fn(async () => undefined),
+        markCampaignFn: jest.fn(async () => undefined),
+        saveReportFn: jest.fn(async () => undefined),
+        saveCheckpointFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).resumeSync({
+        runId: 'run_interrupted',
+        mode: 'full',
+        startedAt: new Date(Date.now() - 60000),
+        campaigns: campaigns.slice(1),
+        completedCount: 1,
+        recordedIds: campaigns.map(c => c.id),
+        listingComplete: true,
+      });
+
+      expect(deps.fetchAllCampaignsFn).not.toHaveBeenCalled();
+      expect(deps.startRunFn).not.toHaveBeenCalled();
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(2);
+      expect(deps.syncCampaignFn).not.toHaveBeenCalledWith(
+        'campaign_1',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(report).toMatchObject({
+        runId: 'run_interrupted',
+        totalCampaigns: 3,
+        skippedCount: 0,
+        completedCount: 1,
+        successCount: 2,
+      });
+      expect(deps.saveReportFn).toHaveBeenCalledWith(report);
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+
+    it('should mark the listing complete once every page is recorded', async () => {
+      const deps = createDeps(createMockCampaigns(2), {
+        markListingCompleteFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.markListingCompleteFn).toHaveBeenCalledWith(report.runId);
+    });
+
+    it('should leave the listing incomplete when stopped between pages', async () => {
+      const campaigns = createMockCampaigns(4);
+      let orchestrator: SyncOrchestrator;
+      const deps = createDeps([], {
+        maxConcurrent: 1,
+        streamCampaignsFn: async function* () {
+          yield campaigns.slice(0, 2);
+          yield campaigns.slice(2);
+        },
+        syncCampaignFn: jest.fn(async () => orchestrator.stop()),
+        markListingCompleteFn: jest.fn(async () => undefined),
+      });
+      orchestrator = new SyncOrchestrator(deps);
+
+      const report = await orchestrator.executeSync();
+
+      expect(report.interrupted).toBe(true);
+      expect(deps.markListingCompleteFn).not.toHaveBeenCalled();
+    });
+
+    it('should re-list a resumed run whose listing was cut short', async () => {
+      const campaigns = createMockCampaigns(4);
+      const deps = createDeps(campaigns, {
+        addRunCampaignsFn: jest.fn(async () => undefined),
+        markListingCompleteFn: jest.fn(async () => undefined),
+      });
+
+      const report = await new SyncOrchestrator(deps).resumeSync({
+        runId: 'run_interrupted',
+        mode: 'full',
+        startedAt: new Date(Date.now() - 60000),
+        campaigns: [campaigns[1]],
+        completedCount: 1,
+        recordedIds: ['campaign_1', 'campaign_2'],
+        listingComplete: false,
+      });
+
+      expect(deps.fetchAllCampaignsFn).toHaveBeenCalled();
+      expect(deps.addRunCampaignsFn).toHaveBeenCalledWith('run_interrupted', campaigns.slice(2));
+      expect(deps.markListingCompleteFn).toHaveBeenCalledWith('run_interrupted');
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(3);
+      expect(deps.syncCampaignFn).not.toHaveBeenCalledWith(
+        'campaign_1',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(report).toMatchObject({ totalCampaigns: 4, completedCount: 1, successCount: 3 });
+    });
+
+    it('should mark the run failed instead of resumable when the sync throws', async () => {
+      const deps = createDeps([], {
+        fetchAllCampaignsFn: jest.fn(async () => {
+          throw new Error('listing failed');
+        }),
+        startRunFn: jest.fn(async () => undefined),
+        failRunFn: jest.fn(async () => undefined),
+      });
+
+      await expect(new SyncOrchestrator(deps).executeSync()).rejects.toThrow('listing failed');
+
+      const runId = (deps.startRunFn as jest.Mock).mock.calls[0][0];
+      expect(deps.failRunFn).toHaveBeenCalledWith(runId);
+    });
+
+    it('should finish queued campaigns and fail the run when a resume throws', async () => {
+      const campaigns = createMockCampaigns(2);
+      const events: string[] = [];
+      const deps = createDeps([], {
+        fetchAllCampaignsFn: jest.fn(async () => {
+          throw new Error('listing failed');
+        }),
+        syncCampaignFn: jest.fn(async () => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }),
+        saveCampaignFn: jest.fn(async (campaign: Campaign) => {
+          events.push(`saved:${campaign.id}`);
+        }),
+        failRunFn: jest.fn(async () => {
+          events.push('failed');
+        }),
+      });
+
+      const resume = new SyncOrchestrator(deps).resumeSync({
+        runId: 'run_interrupted',
+        mode: 'full',
+        startedAt: new Date(Date.now() - 60000),
+        campaigns,
+        completedCount: 0,
+        recordedIds: ['campaign_1', 'campaign_2'],
+        listingComplete: false,
+      });
+
+      await expect(resume).rejects.toThrow('listing failed');
+      expect(events).toEqual(['saved:campaign_1', 'saved:campaign_2', 'failed']);
+      expect(deps.failRunFn).toHaveBeenCalledWith('run_interrupted');
+    });
+
+    it('should keep syncing if recording campaign state fails', async () => {
+      const deps = createDeps(createMockCampaigns(2), {
+        markCampaignFn: jest.fn(async () => {
+          throw new Error('database down');
+        }),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.successCount).toBe(2);
+    });
+  });
+
+  describe('Graceful Shutdown', () => {
+    it('should stop starting campaigns and return a partial report', async () => {
+      let orchestrator: SyncOrchestrator;
+      const deps = createDeps(createMockCampaigns(5), {
+        maxConcurrent: 1,
+        syncCampaignFn: jest.fn(async (id: string) => {
+          if (id === 'campaign_2') {
+            orchestrator.stop();
+          }
+        }),
+        saveCheckpointFn: jest.fn(async () => undefined),
+        saveReportFn: jest.fn(async () => undefined),
+      });
+      orchestrator = new SyncOrchestrator(deps);
+
+      const report = await orchestrator.executeSync();
+
+      expect(report.interrupted).toBe(true);
+      expect(report.successCount).toBe(2);
+      expect(report.totalCampaigns).toBe(5);
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(2);
+      expect(deps.saveReportFn).toHaveBeenCalledWith(report);
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+
+    it('should report without waiting past the shutdown deadline', async () => {
+      let orchestrator: SyncOrchestrator;
+      const deps = createDeps(createMockCampaigns(2), {
+        shutdownTimeoutMs: 100,
+        syncCampaignFn: jest.fn(async (id: string) => {
+          if (id === 'campaign_1') {
+            orchestrator.stop();
+            return;
+          }
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }),
+      });
+      orchestrator = new SyncOrchestrator(deps);
+
+      const report = await orchestrator.executeSync();
+
+      expect(report.interrupted).toBe(true);
+      expect(report.results.map(r => r.campaignId)).toEqual(['campaign_1']);
+    });
+
+    it('should abort campaigns still in flight at the shutdown deadline', async () => {
+      let orchestrator: SyncOrchestrator;
+      let inFlightSignal: AbortSignal | undefined;
+      const deps = createDeps(createMockCampaigns(2), {
+        shutdownTimeoutMs: 100,
+        syncCampaignFn: jest.fn(async (id: string, _onRetry, signal?: AbortSignal) => {
+          if (id === 'campaign_2') {
+            orchestrator.stop();
+            return;
+          }
+          inFlightSignal = signal;
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }),
+      });
+      orchestrator = new SyncOrchestrator(deps);
+
+      await orchestrator.executeSync();
+
+      expect(inFlightSignal?.aborted).toBe(true);
+    });
+
+    it('should abort a hanging page fetch instead of waiting for it', async () => {
+      let listingSignal: AbortSignal | undefined;
+      const deps = createDeps([], {
+        shutdownTimeoutMs: 100,
+        streamCampaignsFn: async function* (signal?: AbortSignal) {
+          listingSignal = signal;
+          yield createMockCampaigns(1);
+          await new Promise((_resolve, reject) => {
+            signal!.addEventListener('abort', () => reject(signal!.reason));
+          });
+        },
+        markListingCompleteFn: jest.fn(async () => undefined),
+      });
+      const orchestrator = new SyncOrchestrator(deps);
+      setTimeout(() => orchestrator.stop(), 20);
+
+      const started = Date.now();
+      const report = await orchestrator.executeSync();
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(report.interrupted).toBe(true);
+      expect(report.successCount).toBe(1);
+      expect(listingSignal?.aborted).toBe(true);
+      expect(deps.markListingCompleteFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should abort in-flight campaigns when the run signal aborts', async () => {
+      const controller = new AbortController();
+      const deps = createDeps(createMockCampaigns(4), {
+        maxConcurrent: 1,
+        syncCampaignFn: jest.fn((_id: string, _onRetry, signal?: AbortSignal) =>
+          new Promise<void>((_resolve, reject) => {
+            signal!.addEventListener('abort', () => reject(signal!.reason));
+          })
+        ),
+      });
+      const orchestrator = new SyncOrchestrator(deps);
+      setTimeout(() => controller.abort(), 50);
+
+      const report = await orchestrator.executeSync(undefined, controller.signal);
+
+      expect(report.interrupted).toBe(true);
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(1);
+      expect(report.results[0].error?.message).toBe('Sync run cancelled');
+    });
+
+    it('should not fetch campaigns when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const deps = createDeps(createMockCampaigns(2));
+      const orchestrator = new SyncOrchestrator(deps);
+
+      const report = await orchestrator.executeSync(undefined, controller.signal);
+
+      expect(report.interrupted).toBe(true);
+      expect(deps.syncCampaignFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Streaming Pagination', () => {
+    const createPages = (pageCount: number, perPage: number): Campaign[][] =>
+      Array.from({ length: pageCount }, (_, page) =>
+        createMockCampaigns(pageCount * perPage).slice(page * perPage, (page + 1) * perPage)
+      );
+
+    it('should start syncing before all pages are fetched', async () => {
+      const pages = createPages(3, 2);
+      const events: string[] = [];
+
+      const deps = createDeps([], {
+        streamCampaignsFn: async function* () {
+          for (const [index, page] of pages.entries()) {
+            events.push(`page_${index + 1}`);
+            yield page;
+          }
+        },
+        syncCampaignFn: jest.fn(async (id: string) => {
+          events.push(id);
+        }),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.successCount).toBe(6);
+      expect(events.indexOf('campaign_1')).toBeLessThan(events.indexOf('page_3'));
+      expect(deps.fetchAllCampaignsFn).not.toHaveBeenCalled();
+    });
+
+    it('should pause fetching while the queue is saturated', async () => {
+      const pages = createPages(5, 4);
+      let pagesFetched = 0;
+      let maxPagesAhead = 0;
+      let synced = 0;
+
+      const deps = createDeps([], {
+        maxConcurrent: 2,
+        streamCampaignsFn: async function* () {
+          for (const page of pages) {
+            pagesFetched++;
+            maxPagesAhead = Math.max(maxPagesAhead, pagesFetched - Math.floor(synced / 4));
+            yield page;
+          }
+        },
+        syncCampaignFn: jest.fn(async () => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          synced++;
+        }),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.successCount).toBe(20);
+      expect(maxPagesAhead).toBeLessThanOrEqual(2);
+    });
+
+    it('should finish in-flight campaigns before failing on a page error', async () => {
+      const [firstPage] = createPages(1, 2);
+      const deps = createDeps([], {
+        streamCampaignsFn: async function* () {
+          yield firstPage;
+          throw new Error('page 2 failed');
+        },
+        syncCampaignFn: jest.fn(async () => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }),
+        saveCheckpointFn: jest.fn(async () => undefined),
+      });
+
+      await expect(new SyncOrchestrator(deps).executeSync()).rejects.toThrow('page 2 failed');
+      expect(deps.saveCampaignFn).toHaveBeenCalledTimes(2);
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Campaign Filter', () => {
+    const createFilteredCampaigns = (): Campaign[] => {
+      const campaigns = createMockCampaigns(4);
+      campaigns[1].status = 'paused';
+      campaigns[2].created_at = '2023-06-01T00:00:00.000Z';
+      return campaigns;
+    };
+
+    it('should only sync matching campaigns and report the filter', async () => {
+      const filter = { statuses: ['active' as const], createdAfter: new Date('2024-01-01T00:00:00Z') };
+      const deps = createDeps(createFilteredCampaigns(), { filter });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(2);
+      expect(deps.syncCampaignFn).toHaveBeenCalledWith(
+        'campaign_1',
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
+      expect(deps.syncCampaignFn).toHaveBeenCalledWith(
+        'campaign_4',
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
+      expect(report.filter).toEqual(filter);
+      expect(report.filteredOutCount).toBe(2);
+      expect(report.totalCampaigns).toBe(2);
+      expect(report.skippedCount).toBe(0);
+    });
+
+    it('should apply ID allowlists, denylists and name patterns', async () => {
+      const deps = createDeps(createMockCampaigns(4), {
+        filter: {
+          includeIds: ['campaign_1', 'campaign_2', 'campaign_3'],
+          excludeIds: ['campaign_2'],
+          namePattern: '^campaign [13]$',
+        },
+      });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect((deps.syncCampaignFn as jest.Mock).mock.calls.map(([id]) => id).sort())
+        .toEqual(['campaign_1', 'campaign_3']);
+    });
+
+    it('should not advance the checkpoint or reconcile deletions', async () => {
+      const deps = createDeps(createFilteredCampaigns(), {
+        filter: { statuses: ['active'] },
+        saveCheckpointFn: jest.fn(async () => undefined),
+        deletionPolicy: 'mark',
+        getActiveCampaignIdsFn: jest.fn(async () => ['campaign_1', 'campaign_old']),
+        markDeletedFn: jest.fn(async (ids: string[]) => ids.length),
+      });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.deletions).toBeNull();
+      expect(deps.getActiveCampaignIdsFn).not.toHaveBeenCalled();
+      expect(deps.saveCheckpointFn).not.toHaveBeenCalled();
+    });
+
+    it('should treat an empty filter as a full run', async () => {
+      const deps = createDeps(createMockCampaigns(2), { filter: { statuses: [] } });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(report.filter).toBeNull();
+      expect(report.filteredOutCount).toBe(0);
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Priority Scheduling', () => {
+    const syncOrder = (deps: SyncOrchestratorDependencies) =>
+      (deps.syncCampaignFn as jest.Mock).mock.calls.map(([id]) => id);
+
+    it('should sync in upstream order without a policy', async () => {
+      const deps = createDeps(createMockCampaigns(3), { maxConcurrent: 1 });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(syncOrder(deps)).toEqual(['campaign_1', 'campaign_2', 'campaign_3']);
+    });
+
+    it('should sync active before paused before completed', async () => {
+      const campaigns = createMockCampaigns(3);
+      campaigns[0].status = 'completed';
+      campaigns[1].status = 'paused';
+      const deps = createDeps(campaigns, { maxConcurrent: 1, priorityPolicy: statusPriority });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(syncOrder(deps)).toEqual(['campaign_3', 'campaign_2', 'campaign_1']);
+    });
+
+    it('should sync the highest budget first', async () => {
+      const campaigns = createMockCampaigns(3);
+      campaigns[0].budget = 100;
+      campaigns[1].budget = 5000;
+      campaigns[2].budget = 900;
+      const deps = createDeps(campaigns, { maxConcurrent: 1, priorityPolicy: budgetPriority });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(syncOrder(deps)).toEqual(['campaign_2', 'campaign_3', 'campaign_1']);
+    });
+
+    it('should order campaigns across every streamed page', async () => {
+      const campaigns = createMockCampaigns(6);
+      [100, 200, 300, 400, 500, 600].forEach((budget, i) => {
+        campaigns[i].budget = budget;
+      });
+      const deps = createDeps([], {
+        maxConcurrent: 1,
+        priorityPolicy: budgetPriority,
+        streamCampaignsFn: async function* () {
+          yield campaigns.slice(0, 2);
+          yield campaigns.slice(2, 4);
+          yield campaigns.slice(4);
+        },
+        addRunCampaignsFn: jest.fn(async () => undefined),
+      });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(syncOrder(deps)).toEqual([
+        'campaign_6', 'campaign_5', 'campaign_4', 'campaign_3', 'campaign_2', 'campaign_1',
+      ]);
+      // Pages are still recorded as they arrive so an interrupted run can resume
+      expect(deps.addRunCampaignsFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should sync never-synced then stalest campaigns first', async () => {
+      const getSyncTimesFn = jest.fn(async () => new Map([
+        ['campaign_1', new Date('2025-01-02T00:00:00Z')],
+        ['campaign_2', new Date('2025-01-01T00:00:00Z')],
+      ]));
+      const deps = createDeps(createMockCampaigns(3), {
+        maxConcurrent: 1,
+        priorityPolicy: stalenessPriority,
+        getSyncTimesFn,
+      });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(syncOrder(deps)).toEqual(['campaign_3', 'campaign_2', 'campaign_1']);
+    });
+
+    it('should only load sync times when the policy needs them', async () => {
+      const getSyncTimesFn = jest.fn(async () => new Map<string, Date>());
+      const deps = createDeps(createMockCampaigns(2), {
+        priorityPolicy: statusPriority,
+        getSyncTimesFn,
+      });
+
+      await new SyncOrchestrator(deps).executeSync();
+
+      expect(getSyncTimesFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Failure Re-queueing', () => {
+    const createFlakyDeps = (
+      failuresBySyncId: Record<string, number>,
+      overrides: Partial<SyncOrchestratorDependencies> = {}
+    ) => {
+      const remaining = { ...failuresBySyncId };
+      return createDeps(createMockCampaigns(3), {
+        syncCampaignFn: jest.fn(async (id: string) => {
+          if ((remaining[id] ?? 0) > 0) {
+            remaining[id]--;
+            throw new Error(`sync of ${id} failed`);
+          }
+        }),
+        requeueAttempts: 2,
+        requeueDelayMs: 1,
+        deadLetterFn: jest.fn(async () => undefined),
+        clearDeadLettersFn: jest.fn(async (ids: string[]) => ids.length),
+        ...overrides,
+      });
+    };
+
+    it('should re-queue failed campaigns at the end of the run', async () => {
+      const deps = createFlakyDeps({ campaign_2: 1 });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(4);
+      expect(report.successCount).toBe(3);
+      expect(report.failureCount).toBe(0);
+      expect(report.requeueCount).toBe(1);
+      expect(report.results).toHaveLength(3);
+      expect(deps.deadLetterFn).not.toHaveBeenCalled();
+      expect(deps.clearDeadLettersFn).toHaveBeenCalledWith(
+        expect.arrayContaining(['campaign_1', 'campaign_2', 'campaign_3'])
+      );
+    });
+
+    it('should dead-letter campaigns still failing after every round', async () => {
+      const deps = createFlakyDeps({ campaign_3: 5 });
+
+      const report = await new SyncOrchestrator(deps).executeSync();
+
+      expect(deps.syncCampaignFn).toHaveBeenCalledTimes(5);
+      expect(report.failureCount).toBe(1);
+      expect(report.requeueCount).toBe(2);
+      expect(report.deadLetterCount).toBe(1);
+      expect(deps.deadLetterFn).toHaveBeenCalledWith(report.runId, [
+        expect.objectContaining({
+          campaign: expect.objectContaining({ id: 'campaign_3' }),
+          result: expect.objectContaining({ success: false }),
+        }),
+      ]);
+    });
+
+    it('should not re-queue or dead-letter after a stop', async () => {
+      let orchestrator: SyncOrchestrator;
+      const deps = createFlakyDeps({ campaign_1: 5 }, {
+        maxConcurrent: 1,
+        requeueDelayMs: 60000,
+        shutdownTimeoutMs: 100,
+      });
+      const syncCampaign = deps.syncCampaignFn;
+      deps.syncCampaignFn = jest.fn(async (id: string) => {
+        if (id === 'campaign_3') {
+          orchestrator.stop();
+        }
+        return syncCampaign(id);
+      });
+      orchestrator = new SyncOrchestrator(deps);
+
+      const report = await orchestrator.executeSync();
+
+      expect(report.interrupted).toBe(true);
+      expect(report.requeueCount).toBe(0);
+      expect(deps.deadLetterFn).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
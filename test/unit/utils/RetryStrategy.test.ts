@@ -0,0 +1,122 @@
+/**
+ * RetryStrategy unit tests
+ */
+
+import { resolveRetryPolicy, withRetry } from '../../../src/utils/RetryStrategy';
+import { ErrorCode, RetryAttempt } from '../../../src/types';
+import {
+  CancelledError,
+  RetryBudgetExhaustedError,
+  TimeoutError,
+  ValidationError,
+} from '../../../src/utils/ErrorHandler';
+
+describe('RetryStrategy', () => {
+  const fastRetry = { baseDelay: 1, jitter: 0, maxDelay: 10, retryableErrors: [] };
+
+  describe('withRetry', () => {
+    it('should report each retried attempt', async () => {
+      const attempts: RetryAttempt[] = [];
+      const fn = jest.fn()
+        .mockRejectedValueOnce(new TimeoutError('slow'))
+        .mockRejectedValueOnce(new TimeoutError('still slow'))
+        .mockResolvedValue('ok');
+
+      const result = await withRetry(fn, {
+        ...fastRetry,
+        maxAttempts: 5,
+        onRetry: attempt => attempts.push(attempt),
+      });
+
+      expect(result).toBe('ok');
+      expect(attempts).toEqual([
+        { attempt: 1, errorCode: 'TIMEOUT', errorMessage: 'slow', delayMs: 1 },
+        { attempt: 2, errorCode: 'TIMEOUT', errorMessage: 'still slow', delayMs: 2 },
+      ]);
+    });
+
+    it('should not report the final failed attempt', async () => {
+      const onRetry = jest.fn();
+      const fn = jest.fn().mockRejectedValue(new TimeoutError('slow'));
+
+      await expect(withRetry(fn, { ...fastRetry, maxAttempts: 2, onRetry })).rejects.toThrow('slow');
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report errors that are not retried', async () => {
+      const onRetry = jest.fn();
+      const fn = jest.fn().mockRejectedValue(new ValidationError('bad input'));
+
+      await expect(withRetry(fn, { ...fastRetry, maxAttempts: 3, onRetry })).rejects.toThrow('bad input');
+
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying once acquireRetry refuses', async () => {
+      const acquireRetry = jest.fn().mockReturnValueOnce(true).mockReturnValue(false);
+      const fn = jest.fn().mockRejectedValue(new TimeoutError('slow'));
+
+      const error = await withRetry(fn, { ...fastRetry, maxAttempts: 5, acquireRetry })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(RetryBudgetExhaustedError);
+      const exhausted = error as RetryBudgetExhaustedError;
+      expect(exhausted.code).toBe(ErrorCode.RETRY_BUDGET_EXHAUSTED);
+      expect(exhausted.originalError?.message).toBe('slow');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting to retry once the signal aborts', async () => {
+      const controller = new AbortController();
+      const fn = jest.fn().mockRejectedValue(new TimeoutError('slow'));
+
+      const promise = withRetry(fn, {
+        ...fastRetry,
+        baseDelay: 10000,
+        maxDelay: 10000,
+        maxAttempts: 3,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(promise).rejects.toBeInstanceOf(CancelledError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new TimeoutError('deadline'));
+      const fn = jest.fn().mockResolvedValue('ok');
+
+      await expect(
+        withRetry(fn, { ...fastRetry, maxAttempts: 3, signal: controller.signal })
+      ).rejects.toThrow('deadline');
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveRetryPolicy', () => {
+    const config = {
+      maxAttempts: 5,
+      baseDelay: 1000,
+      jitter: 250,
+      maxDelay: 16000,
+      operations: {
+        auth: { maxAttempts: 3, baseDelay: 500, jitter: 100, maxDelay: 5000 },
+      },
+    };
+
+    it('should use the operation policy when configured', () => {
+      expect(resolveRetryPolicy(config, 'auth')).toEqual(config.operations.auth);
+    });
+
+    it('should fall back to the defaults', () => {
+      const defaults = { maxAttempts: 5, baseDelay: 1000, jitter: 250, maxDelay: 16000 };
+
+      expect(resolveRetryPolicy(config, 'syncCampaign')).toEqual(defaults);
+      expect(resolveRetryPolicy(config)).toEqual(defaults);
+    });
+  });
+});
\ No newline at end of file